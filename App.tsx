@@ -3,6 +3,7 @@ import { StatusBar, View } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { SessionProvider } from './src/store/sessionStore';
 import { RootNavigator } from './src/navigation';
+import { ToastHost } from './src/components/ToastHost';
 
 export default function App() {
   return (
@@ -13,6 +14,7 @@ export default function App() {
           <View style={{ flex: 1 }}>
             <RootNavigator />
           </View>
+          <ToastHost />
         </SafeAreaProvider>
       </SessionProvider>
     </View>
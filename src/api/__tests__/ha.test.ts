@@ -0,0 +1,58 @@
+import { getDevicesWithMetadata } from '../ha';
+import { EntityMetadata, getEntityMetadata } from '../haRegistry';
+
+jest.mock('../haRegistry', () => ({ getEntityMetadata: jest.fn() }));
+
+const ha = { baseUrl: 'http://hub.test', longLivedToken: 'token' };
+
+function respond(body: unknown) {
+  return Promise.resolve({
+    ok: true,
+    status: 200,
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  } as Response);
+}
+
+function meta(entityCategory: string | null | undefined): EntityMetadata {
+  return { areaName: 'Hall', deviceId: 'dev1', labels: [], entityCategory };
+}
+
+describe('getDevicesWithMetadata', () => {
+  beforeEach(() => {
+    global.fetch = jest.fn(() =>
+      respond([
+        { entity_id: 'button.garage_door', state: 'unknown', attributes: {} },
+        { entity_id: 'button.printer_restart', state: 'unknown', attributes: {} },
+        { entity_id: 'select.bulb_power_on', state: 'off', attributes: {} },
+        { entity_id: 'input_button.doorbell_chime', state: 'unknown', attributes: {} },
+      ])
+    ) as unknown as typeof fetch;
+  });
+
+  it('files device buttons, numbers and selects under Controls only when primary', async () => {
+    jest.mocked(getEntityMetadata).mockResolvedValue(
+      new Map([
+        ['button.garage_door', meta(null)],
+        ['button.printer_restart', meta('config')],
+        ['select.bulb_power_on', meta('diagnostic')],
+        ['input_button.doorbell_chime', meta(null)],
+      ])
+    );
+    const devices = await getDevicesWithMetadata(ha);
+    expect(Object.fromEntries(devices.map((d) => [d.entityId, d.labelCategory]))).toEqual({
+      'button.garage_door': 'Controls',
+      'button.printer_restart': null,
+      'select.bulb_power_on': null,
+      'input_button.doorbell_chime': 'Controls',
+    });
+  });
+
+  it('leaves device buttons out when the metadata cannot say what they are', async () => {
+    jest.mocked(getEntityMetadata).mockResolvedValue(
+      new Map([['button.garage_door', meta(undefined)]])
+    );
+    const devices = await getDevicesWithMetadata(ha);
+    expect(devices.find((d) => d.entityId === 'button.garage_door')?.labelCategory).toBeNull();
+  });
+});
@@ -0,0 +1,44 @@
+import { HaUnreachableError } from '../haErrors';
+import { closeAllHaSockets, getHaSocket } from '../haWebSocket';
+
+const ha = { baseUrl: 'http://hub.test', longLivedToken: 'token' };
+
+// Never opens, like a hub behind a proxy that swallows the upgrade.
+class SilentWebSocket {
+  readyState = 0;
+  onmessage: ((e: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  send() {}
+  close() {}
+}
+
+describe('HaSocket.sendCommand', () => {
+  const originalWebSocket = global.WebSocket;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    closeAllHaSockets();
+    global.WebSocket = originalWebSocket;
+    jest.useRealTimers();
+  });
+
+  it('gives up when the socket never finishes connecting', async () => {
+    global.WebSocket = SilentWebSocket as unknown as typeof WebSocket;
+    const result = getHaSocket(ha).sendCommand({ type: 'config/area_registry/list' });
+    const settled = expect(result).rejects.toBeInstanceOf(HaUnreachableError);
+    await jest.advanceTimersByTimeAsync(10000);
+    await settled;
+  });
+
+  it('fails straight away when WebSockets are unavailable', async () => {
+    // @ts-expect-error simulating a runtime without WebSocket
+    delete global.WebSocket;
+    await expect(
+      getHaSocket(ha).sendCommand({ type: 'config/area_registry/list' })
+    ).rejects.toBeInstanceOf(HaUnreachableError);
+  });
+});
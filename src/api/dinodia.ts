@@ -6,6 +6,8 @@ import type { HaConnection } from '../models/haConnection';
 import type { AccessRule } from '../models/accessRule';
 import type { UIDevice, DeviceOverride } from '../models/device';
 import { getDevicesWithMetadata, EnrichedDevice, HaConnectionLike, probeHaReachability } from './ha';
+import { HaUnreachableError, isHaError } from './haErrors';
+import { buildHaConnectionLike } from './haRoute';
 import { classifyDeviceByLabel } from '../utils/labelCatalog';
 
 export type HaMode = 'home' | 'cloud';
@@ -122,34 +124,46 @@ export async function getUserWithHaConnection(
   return { user, haConnection };
 }
 
+export type DeviceSnapshot = {
+  devices: UIDevice[];
+  // Connection the snapshot was read from, so callers can open a live feed to the same hub.
+  ha: HaConnectionLike | null;
+  // The hub record behind it, so cached copies can be tied to this hub.
+  haConnection: HaConnection;
+};
+
 export async function fetchDevicesForUser(
   userId: number,
   mode: HaMode = 'home'
 ): Promise<UIDevice[]> {
+  const snapshot = await fetchDeviceSnapshotForUser(userId, mode);
+  return snapshot.devices;
+}
+
+export async function fetchDeviceSnapshotForUser(
+  userId: number,
+  mode: HaMode = 'home'
+): Promise<DeviceSnapshot> {
   const { user, haConnection } = await getUserWithHaConnection(userId);
-  const rawUrl = mode === 'cloud' ? haConnection.cloudUrl : haConnection.baseUrl;
-  const baseUrl = (rawUrl ?? '').trim().replace(/\/+$/, '');
+  const haLike = buildHaConnectionLike(haConnection, mode);
 
   // If there is no URL for this mode, return an empty dashboard.
-  if (!baseUrl) {
-    return [];
+  if (!haLike) {
+    return { devices: [], ha: null, haConnection };
   }
 
-  const haLike: HaConnectionLike = {
-    baseUrl,
-    longLivedToken: haConnection.longLivedToken,
-  };
-
   // Fast reachability pre-check to fail quickly when HA is unreachable.
   const reachable = await probeHaReachability(haLike, mode === 'home' ? 2000 : 4000);
   if (!reachable) {
     if (mode === 'home') {
-      throw new Error(
-        'We cannot find your Dinodia Hub on the home Wi-Fi. It looks like you are away from home—switch to Dinodia Cloud to control your place.'
+      throw new HaUnreachableError(
+        'We cannot find your Dinodia Hub on the home Wi-Fi. It looks like you are away from home—switch to Dinodia Cloud to control your place.',
+        { path: '/api/' }
       );
     } else {
-      throw new Error(
-        'Dinodia Cloud is not ready yet. The homeowner needs to finish setting up remote access for this property.'
+      throw new HaUnreachableError(
+        'Dinodia Cloud is not ready yet. The homeowner needs to finish setting up remote access for this property.',
+        { path: '/api/' }
       );
     }
   }
@@ -163,6 +177,8 @@ export async function fetchDevicesForUser(
       // eslint-disable-next-line no-console
       console.error('Failed to fetch devices from HA:', err);
     }
+    // Keep typed hub errors intact so screens can tell auth problems from outages.
+    if (isHaError(err)) throw err;
     const message =
       err instanceof Error && err.message
         ? err.message
@@ -217,10 +233,10 @@ export async function fetchDevicesForUser(
       (d) =>
         d.areaName !== null && rules.some((r) => r.area === d.areaName)
     );
-    return result;
+    return { devices: result, ha: haLike, haConnection };
   }
 
-  return devices;
+  return { devices, ha: haLike, haConnection };
 }
 
 export async function updateDeviceOverride(params: {
@@ -283,6 +299,34 @@ export async function createTenant(params: {
   if (errAccess) throw errAccess;
 }
 
+/** Areas granted to this home's tenants through their AccessRules, A–Z. */
+export async function fetchTenantAreas(adminId: number): Promise<string[]> {
+  const { haConnection } = await getUserWithHaConnection(adminId);
+
+  const { data: tenants, error } = await supabase
+    .from('User')
+    .select('id')
+    .eq('role', 'TENANT')
+    .eq('haConnectionId', haConnection.id);
+  if (error) throw error;
+
+  const tenantIds = (tenants ?? []).map((t: { id: number }) => t.id);
+  if (tenantIds.length === 0) return [];
+
+  const { data: rules, error: rulesError } = await supabase
+    .from('AccessRule')
+    .select('area')
+    .in('userId', tenantIds);
+  if (rulesError) throw rulesError;
+
+  const areas = new Set(
+    ((rules ?? []) as Pick<AccessRule, 'area'>[])
+      .map((r) => r.area?.trim())
+      .filter((area): area is string => !!area)
+  );
+  return Array.from(areas).sort((a, b) => a.localeCompare(b));
+}
+
 export async function updateHaSettings(params: {
   adminId: number;
   haUsername: string;
@@ -1,5 +1,15 @@
 // src/api/ha.ts
 import { classifyDeviceByLabel, LabelCategory } from '../utils/labelCatalog';
+import { getBinarySensorCategory } from '../utils/binarySensors';
+import { EntityMetadata, getEntityMetadata } from './haRegistry';
+import {
+  HaError,
+  HaServiceError,
+  HaTimeoutError,
+  HaUnreachableError,
+  haErrorFromStatus,
+  isHaError,
+} from './haErrors';
 
 export type HaConnectionLike = {
   baseUrl: string;
@@ -13,6 +23,8 @@ export type HAState = {
     friendly_name?: string;
     [key: string]: unknown;
   };
+  // Who or what caused the latest change; user_id is the HA user, when a person did it.
+  context?: { id: string; user_id: string | null; parent_id: string | null };
 };
 
 export type TemplateDeviceMeta = {
@@ -42,7 +54,10 @@ function buildHaUrl(baseUrl: string, path: string): string {
   return `${normalizedBase}/${path}`;
 }
 
-function describeNetworkFailure(baseUrl: string, path: string, err: unknown): Error {
+function describeNetworkFailure(baseUrl: string, path: string, err: unknown): HaError {
+  if (err instanceof HaTimeoutError) {
+    return new HaTimeoutError(err.message, { path, cause: err });
+  }
   const original = err instanceof Error ? err.message : String(err);
   const hints: string[] = [];
   try {
@@ -62,9 +77,19 @@ function describeNetworkFailure(baseUrl: string, path: string, err: unknown): Er
     // ignore parsing issues; baseUrl should already be valid
   }
   const hintText = hints.length > 0 ? ` ${hints.join(' ')}` : '';
-  return new Error(`Dinodia Hub network issue: ${original}.${hintText} Please try again.`);
+  return new HaUnreachableError(
+    `Dinodia Hub network issue: ${original}.${hintText} Please try again.`,
+    { path, cause: err }
+  );
+}
+
+async function errorFromResponse(res: Response, path: string, fallbackMessage: string) {
+  const text = await res.text().catch(() => '');
+  return haErrorFromStatus(res.status, path, text, fallbackMessage);
 }
 
+const TIMEOUT_MESSAGE = 'Dinodia Hub request timed out. Please try again.';
+
 async function fetchWithTimeout(
   url: string,
   options: RequestInit = {},
@@ -79,6 +104,11 @@ async function fetchWithTimeout(
     const id = setTimeout(() => controller.abort(), timeoutMs);
     try {
       return await fetch(url, { ...options, signal: controller.signal });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        throw new HaTimeoutError(TIMEOUT_MESSAGE, { cause: err });
+      }
+      throw err;
     } finally {
       clearTimeout(id);
     }
@@ -88,7 +118,7 @@ async function fetchWithTimeout(
   return await Promise.race([
     fetch(url, options),
     new Promise<Response>((_, reject) =>
-      setTimeout(() => reject(new Error('Dinodia Hub request timed out. Please try again.')), timeoutMs)
+      setTimeout(() => reject(new HaTimeoutError(TIMEOUT_MESSAGE)), timeoutMs)
     ),
   ]);
 }
@@ -113,10 +143,7 @@ async function callHomeAssistantAPI<T>(
     throw describeNetworkFailure(ha.baseUrl, path, err);
   }
   if (!res.ok) {
-    const text = await res.text().catch(() => '');
-    throw new Error(
-      `Dinodia Hub could not complete that request (${res.status}). ${text || 'Please try again.'}`
-    );
+    throw await errorFromResponse(res, path, 'Dinodia Hub could not complete that request');
   }
   return (await res.json()) as T;
 }
@@ -141,20 +168,12 @@ async function renderHomeAssistantTemplate<T>(
     throw describeNetworkFailure(ha.baseUrl, path, err);
   }
   if (!res.ok) {
-    const text = await res.text().catch(() => '');
-    throw new Error(
-      `Dinodia Hub could not prepare that data (${res.status}). ${text || 'Please try again.'}`
-    );
+    throw await errorFromResponse(res, path, 'Dinodia Hub could not prepare that data');
   }
   return (await res.json()) as T;
 }
 
-export async function getDevicesWithMetadata(
-  ha: HaConnectionLike
-): Promise<EnrichedDevice[]> {
-  const states = await callHomeAssistantAPI<HAState[]>(ha, '/api/states');
-
-  const template = `{% set ns = namespace(result=[]) %}
+const METADATA_TEMPLATE = `{% set ns = namespace(result=[]) %}
 {% for s in states %}
   {% set item = {
     "entity_id": s.entity_id,
@@ -166,42 +185,83 @@ export async function getDevicesWithMetadata(
 {% endfor %}
 {{ ns.result | tojson }}`;
 
-  let meta: TemplateDeviceMeta[] = [];
-  try {
-    meta = await renderHomeAssistantTemplate<TemplateDeviceMeta[]>(ha, template);
-  } catch {
-    meta = [];
+async function loadMetadataFromTemplate(
+  ha: HaConnectionLike
+): Promise<Map<string, EntityMetadata>> {
+  const meta = await renderHomeAssistantTemplate<TemplateDeviceMeta[]>(ha, METADATA_TEMPLATE);
+  const byEntity = new Map<string, EntityMetadata>();
+  for (const m of meta ?? []) {
+    byEntity.set(m.entity_id, {
+      areaName: m.area_name ?? null,
+      deviceId: typeof m.device_id === 'string' && m.device_id.trim().length > 0 ? m.device_id : null,
+      labels: (m.labels ?? []).filter(
+        (label): label is string => typeof label === 'string' && label.trim().length > 0
+      ),
+    });
   }
+  return byEntity;
+}
+
+// Devices expose restart buttons, identify buttons and power-on selects as these
+// domains too; only entities the registry says are primary get a card by domain.
+const DEVICE_SETTING_DOMAINS = new Set(['button', 'number', 'select']);
+
+function classifyByDomain(domain: string, meta: EntityMetadata | undefined) {
+  if (DEVICE_SETTING_DOMAINS.has(domain) && meta?.entityCategory !== null) return null;
+  return classifyDeviceByLabel([domain]);
+}
 
-  const metaByEntity = new Map<string, TemplateDeviceMeta>();
-  for (const m of meta) {
-    metaByEntity.set(m.entity_id, m);
+async function loadEntityMetadata(ha: HaConnectionLike): Promise<Map<string, EntityMetadata>> {
+  try {
+    return await getEntityMetadata(ha);
+  } catch (err) {
+    if (__DEV__) {
+      // eslint-disable-next-line no-console
+      console.log('Registry metadata unavailable, falling back to template', err);
+    }
+  }
+  // Hubs behind proxies that block WebSockets can still answer the template API.
+  try {
+    return await loadMetadataFromTemplate(ha);
+  } catch (err) {
+    // Auth and connectivity problems are more useful to screens than a generic message.
+    if (isHaError(err) && err.kind !== 'service') throw err;
+    // Without areas tenants would see an empty dashboard saved over the last
+    // good one; failing keeps that snapshot on screen under the stale policy.
+    throw new HaServiceError(
+      'Dinodia Hub could not load your rooms and labels right now. Please try again.',
+      { path: '/api/template', cause: err }
+    );
   }
+}
+
+export async function getDevicesWithMetadata(
+  ha: HaConnectionLike
+): Promise<EnrichedDevice[]> {
+  const [states, metaByEntity] = await Promise.all([
+    callHomeAssistantAPI<HAState[]>(ha, '/api/states'),
+    loadEntityMetadata(ha),
+  ]);
 
   return states.map((s) => {
     const domain = s.entity_id.split('.')[0] || '';
     const metaEntry = metaByEntity.get(s.entity_id);
-    const deviceId =
-      metaEntry && typeof metaEntry.device_id === 'string' && metaEntry.device_id.trim().length > 0
-        ? metaEntry.device_id
-        : null;
-    const labels = (metaEntry?.labels ?? []).filter(
-      (label): label is string =>
-        typeof label === 'string' && label.trim().length > 0
-    );
+    const labels = metaEntry?.labels ?? [];
     const labelCategory =
-      classifyDeviceByLabel(labels) ?? classifyDeviceByLabel([domain]);
+      classifyDeviceByLabel(labels) ??
+      getBinarySensorCategory(domain, s.attributes) ??
+      classifyByDomain(domain, metaEntry);
 
     return {
       entityId: s.entity_id,
       name: s.attributes.friendly_name ?? s.entity_id,
       state: s.state,
-      areaName: metaEntry?.area_name ?? null,
+      areaName: metaEntry?.areaName ?? null,
       labels,
       labelCategory,
       domain,
       attributes: s.attributes ?? {},
-      deviceId,
+      deviceId: metaEntry?.deviceId ?? null,
     };
   });
 }
@@ -228,10 +288,7 @@ export async function callHaService(
     throw describeNetworkFailure(ha.baseUrl, path, err);
   }
   if (!res.ok) {
-    const text = await res.text().catch(() => '');
-    throw new Error(
-      `Dinodia Hub could not apply that action (${res.status}). ${text || 'Please try again.'}`
-    );
+    throw await errorFromResponse(res, path, 'Dinodia Hub could not apply that action');
   }
   try {
     return await res.json();
@@ -0,0 +1,100 @@
+// src/api/haErrors.ts
+export type HaErrorKind = 'auth' | 'timeout' | 'unreachable' | 'service' | 'not_found';
+
+type HaErrorOptions = {
+  status?: number | null;
+  path?: string | null;
+  cause?: unknown;
+};
+
+/**
+ * Base class for every failure talking to the Dinodia Hub. `message` stays
+ * user-facing so existing alerts keep working; `kind`, `status` and `path`
+ * let screens react differently to an expired token versus a flaky network.
+ */
+export class HaError extends Error {
+  readonly kind: HaErrorKind;
+  readonly status: number | null;
+  readonly path: string | null;
+
+  constructor(kind: HaErrorKind, message: string, opts: HaErrorOptions = {}) {
+    super(message);
+    // Keep instanceof working when classes are transpiled down for older engines.
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'HaError';
+    this.kind = kind;
+    this.status = opts.status ?? null;
+    this.path = opts.path ?? null;
+    if (opts.cause !== undefined) this.cause = opts.cause;
+  }
+}
+
+/** The hub answered but rejected the long-lived token (401/403 or WebSocket auth_invalid). */
+export class HaAuthError extends HaError {
+  constructor(message: string, opts?: HaErrorOptions) {
+    super('auth', message, opts);
+    this.name = 'HaAuthError';
+  }
+}
+
+/** The request was sent but the hub did not answer in time. */
+export class HaTimeoutError extends HaError {
+  constructor(message: string, opts?: HaErrorOptions) {
+    super('timeout', message, opts);
+    this.name = 'HaTimeoutError';
+  }
+}
+
+/** The hub could not be reached at all (DNS, Wi-Fi, TLS, refused connection). */
+export class HaUnreachableError extends HaError {
+  constructor(message: string, opts?: HaErrorOptions) {
+    super('unreachable', message, opts);
+    this.name = 'HaUnreachableError';
+  }
+}
+
+/** The hub answered with an error status other than auth or not-found. */
+export class HaServiceError extends HaError {
+  constructor(message: string, opts?: HaErrorOptions) {
+    super('service', message, opts);
+    this.name = 'HaServiceError';
+  }
+}
+
+/** The entity, service or endpoint does not exist on this hub. */
+export class HaNotFoundError extends HaError {
+  constructor(message: string, opts?: HaErrorOptions) {
+    super('not_found', message, opts);
+    this.name = 'HaNotFoundError';
+  }
+}
+
+export function isHaError(err: unknown): err is HaError {
+  return err instanceof HaError;
+}
+
+export function getHaErrorKind(err: unknown): HaErrorKind | null {
+  return isHaError(err) ? err.kind : null;
+}
+
+export function haErrorFromStatus(
+  status: number,
+  path: string,
+  detail: string,
+  fallbackMessage: string
+): HaError {
+  const opts = { status, path };
+  if (status === 401 || status === 403) {
+    return new HaAuthError(
+      'Dinodia Hub did not accept our access token. The homeowner needs to update the long-lived token in Dinodia Hub settings.',
+      opts
+    );
+  }
+  if (status === 404) {
+    return new HaNotFoundError(
+      `Dinodia Hub could not find that (${status}). ${detail || 'It may have been removed.'}`,
+      opts
+    );
+  }
+  return new HaServiceError(`${fallbackMessage} (${status}). ${detail || 'Please try again.'}`, opts);
+}
@@ -0,0 +1,52 @@
+// src/api/haMediaBrowser.ts
+import { callHaService, HaConnectionLike } from './ha';
+import { getHaSocket } from './haWebSocket';
+
+// One node of HA's media browser tree (BrowseMedia as_dict()).
+export type BrowseMediaItem = {
+  title: string;
+  media_class: string;
+  media_content_id: string;
+  media_content_type: string;
+  can_play: boolean;
+  can_expand: boolean;
+  thumbnail: string | null;
+  children?: BrowseMediaItem[];
+};
+
+/**
+ * Lists a level of the player's media tree; omit `item` for the root
+ * (radio, library, favourites and so on, depending on the integration).
+ * Errors come back as the same HaError kinds as service calls.
+ */
+export async function browseMedia(
+  ha: HaConnectionLike,
+  entityId: string,
+  item?: Pick<BrowseMediaItem, 'media_content_id' | 'media_content_type'>
+): Promise<BrowseMediaItem> {
+  return getHaSocket(ha).sendCommand<BrowseMediaItem>({
+    type: 'media_player/browse_media',
+    entity_id: entityId,
+    ...(item
+      ? { media_content_id: item.media_content_id, media_content_type: item.media_content_type }
+      : {}),
+  });
+}
+
+export async function playMediaItem(
+  ha: HaConnectionLike,
+  entityId: string,
+  item: Pick<BrowseMediaItem, 'media_content_id' | 'media_content_type'>
+) {
+  return callHaService(ha, 'media_player', 'play_media', {
+    entity_id: entityId,
+    media_content_id: item.media_content_id,
+    media_content_type: item.media_content_type,
+  });
+}
+
+/** Thumbnails are often HA-relative (`/api/media_player_proxy/...`) and already signed. */
+export function resolveMediaThumbnail(ha: HaConnectionLike, thumbnail: string | null) {
+  if (!thumbnail) return null;
+  return thumbnail.startsWith('/') ? `${ha.baseUrl.replace(/\/+$/, '')}${thumbnail}` : thumbnail;
+}
@@ -0,0 +1,79 @@
+// src/api/haPeople.ts
+import type { HaConnectionLike } from './ha';
+import { getHaSocket } from './haWebSocket';
+
+type PersonEntry = {
+  id: string;
+  name: string;
+  user_id: string | null;
+};
+
+type PersonListResult = {
+  storage?: PersonEntry[];
+  config?: PersonEntry[];
+};
+
+type CurrentUserResult = {
+  id: string;
+};
+
+export type HaPeople = {
+  // HA user id -> the person's display name.
+  names: Map<string, string>;
+  // The user our long-lived token belongs to. Everything sent from Dinodia runs
+  // as this user, so it says nothing about who actually did it.
+  tokenUserId: string | null;
+};
+
+// People are added or renamed rarely; an hour is fresh enough for activity messages.
+const PEOPLE_TTL_MS = 60 * 60 * 1000;
+
+const peopleCache = new Map<string, { people: HaPeople; loadedAt: number }>();
+const inFlight = new Map<string, Promise<HaPeople>>();
+
+// Home and cloud URLs point at the same hub, so the token identifies it.
+const peopleKey = (ha: HaConnectionLike) => ha.longLivedToken;
+
+async function loadPeople(ha: HaConnectionLike): Promise<HaPeople> {
+  const socket = getHaSocket(ha);
+  const [persons, currentUser] = await Promise.all([
+    socket.sendCommand<PersonListResult>({ type: 'person/list' }),
+    socket.sendCommand<CurrentUserResult>({ type: 'auth/current_user' }).catch(() => null),
+  ]);
+  const names = new Map<string, string>();
+  [...(persons?.storage ?? []), ...(persons?.config ?? [])].forEach((person) => {
+    if (person.user_id && person.name) names.set(person.user_id, person.name);
+  });
+  return { names, tokenUserId: currentUser?.id ?? null };
+}
+
+/** The hub's people, keyed by their HA user. Falls back to the last good copy if a reload fails. */
+export async function getHaPeople(ha: HaConnectionLike): Promise<HaPeople> {
+  const key = peopleKey(ha);
+  const cached = peopleCache.get(key);
+  if (cached && Date.now() - cached.loadedAt < PEOPLE_TTL_MS) {
+    return cached.people;
+  }
+
+  let request = inFlight.get(key);
+  if (!request) {
+    request = loadPeople(ha);
+    inFlight.set(key, request);
+  }
+  try {
+    const people = await request;
+    peopleCache.set(key, { people, loadedAt: Date.now() });
+    return people;
+  } catch (err) {
+    if (cached) return cached.people;
+    throw err;
+  } finally {
+    if (inFlight.get(key) === request) inFlight.delete(key);
+  }
+}
+
+/** Who to credit for a change made by `userId`, or null when we can't tell. */
+export function getPersonName(people: HaPeople, userId: string | null | undefined): string | null {
+  if (!userId || userId === people.tokenUserId) return null;
+  return people.names.get(userId) ?? null;
+}
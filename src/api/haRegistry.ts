@@ -0,0 +1,159 @@
+// src/api/haRegistry.ts
+import type { HaConnectionLike } from './ha';
+import { getHaSocket } from './haWebSocket';
+
+type AreaRegistryEntry = {
+  area_id: string;
+  name: string;
+};
+
+type DeviceRegistryEntry = {
+  id: string;
+  area_id: string | null;
+};
+
+type EntityRegistryEntry = {
+  entity_id: string;
+  device_id: string | null;
+  area_id: string | null;
+  labels?: string[];
+  entity_category?: string | null;
+};
+
+type LabelRegistryEntry = {
+  label_id: string;
+  name: string;
+};
+
+export type EntityMetadata = {
+  areaName: string | null;
+  deviceId: string | null;
+  labels: string[];
+  // 'config' or 'diagnostic' for device settings; null for the entity itself.
+  // Undefined when the source can't tell (the template fallback).
+  entityCategory?: string | null;
+};
+
+type RegistryCacheEntry = {
+  byEntity: Map<string, EntityMetadata>;
+  loadedAt: number;
+};
+
+// Registries change rarely and we listen for their update events, so a long TTL is safe.
+const REGISTRY_TTL_MS = 30 * 60 * 1000;
+
+export const REGISTRY_UPDATE_EVENTS = [
+  'area_registry_updated',
+  'device_registry_updated',
+  'entity_registry_updated',
+  'label_registry_updated',
+] as const;
+
+const registryCache = new Map<string, RegistryCacheEntry>();
+const inFlight = new Map<string, Promise<RegistryCacheEntry>>();
+
+// Home and cloud URLs point at the same hub, so the token identifies the registry.
+const registryKey = (ha: HaConnectionLike) => ha.longLivedToken;
+
+function buildEntityMetadata(
+  areas: AreaRegistryEntry[],
+  devices: DeviceRegistryEntry[],
+  entities: EntityRegistryEntry[],
+  labels: LabelRegistryEntry[]
+): Map<string, EntityMetadata> {
+  const areaNames = new Map(areas.map((a) => [a.area_id, a.name]));
+  const deviceAreas = new Map(devices.map((d) => [d.id, d.area_id]));
+  const labelNames = new Map(labels.map((l) => [l.label_id, l.name]));
+
+  const byEntity = new Map<string, EntityMetadata>();
+  for (const entity of entities) {
+    // An entity's own area wins; otherwise it inherits the area of its device.
+    const areaId =
+      entity.area_id ?? (entity.device_id ? deviceAreas.get(entity.device_id) ?? null : null);
+    const labelList = (entity.labels ?? [])
+      .map((id) => labelNames.get(id))
+      .filter((name): name is string => typeof name === 'string' && name.trim().length > 0);
+    byEntity.set(entity.entity_id, {
+      areaName: areaId ? areaNames.get(areaId) ?? null : null,
+      deviceId: entity.device_id ?? null,
+      labels: labelList,
+      entityCategory: entity.entity_category ?? null,
+    });
+  }
+  return byEntity;
+}
+
+async function loadRegistries(ha: HaConnectionLike): Promise<RegistryCacheEntry> {
+  const socket = getHaSocket(ha);
+  const [areas, devices, entities, labels] = await Promise.all([
+    socket.sendCommand<AreaRegistryEntry[]>({ type: 'config/area_registry/list' }),
+    socket.sendCommand<DeviceRegistryEntry[]>({ type: 'config/device_registry/list' }),
+    socket.sendCommand<EntityRegistryEntry[]>({ type: 'config/entity_registry/list' }),
+    // Labels arrived in HA 2024.4; older hubs still have areas worth showing.
+    socket
+      .sendCommand<LabelRegistryEntry[]>({ type: 'config/label_registry/list' })
+      .catch(() => [] as LabelRegistryEntry[]),
+  ]);
+  return {
+    byEntity: buildEntityMetadata(areas ?? [], devices ?? [], entities ?? [], labels ?? []),
+    loadedAt: Date.now(),
+  };
+}
+
+/**
+ * Area, device and label metadata for every registered entity. Served from
+ * cache while fresh; if a reload fails the last good copy is returned instead
+ * so a registry hiccup never strips areas from the dashboard.
+ */
+export async function getEntityMetadata(
+  ha: HaConnectionLike
+): Promise<Map<string, EntityMetadata>> {
+  const key = registryKey(ha);
+  const cached = registryCache.get(key);
+  if (cached && Date.now() - cached.loadedAt < REGISTRY_TTL_MS) {
+    return cached.byEntity;
+  }
+
+  let request = inFlight.get(key);
+  if (!request) {
+    request = loadRegistries(ha);
+    inFlight.set(key, request);
+  }
+  try {
+    const entry = await request;
+    registryCache.set(key, entry);
+    return entry.byEntity;
+  } catch (err) {
+    if (cached) return cached.byEntity;
+    throw err;
+  } finally {
+    if (inFlight.get(key) === request) inFlight.delete(key);
+  }
+}
+
+export function invalidateEntityMetadata(ha: HaConnectionLike): void {
+  const entry = registryCache.get(registryKey(ha));
+  if (entry) {
+    // Keep the data as a fallback but force the next read to reload.
+    entry.loadedAt = 0;
+  }
+}
+
+export function clearEntityMetadataCache(): void {
+  registryCache.clear();
+  inFlight.clear();
+}
+
+/** Subscribes to registry update events on the live connection and marks the cache stale. */
+export function watchRegistryUpdates(ha: HaConnectionLike, onChange?: () => void): () => void {
+  const socket = getHaSocket(ha);
+  const unsubscribers = REGISTRY_UPDATE_EVENTS.map((eventType) =>
+    socket.subscribeEvents(eventType, () => {
+      invalidateEntityMetadata(ha);
+      onChange?.();
+    })
+  );
+  return () => {
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+  };
+}
@@ -0,0 +1,44 @@
+// src/api/haRoute.ts
+import type { HaConnection } from '../models/haConnection';
+import type { HaMode } from './dinodia';
+import { HaConnectionLike, probeHaReachability } from './ha';
+
+export type HaModePreference = 'auto' | HaMode;
+
+const HOME_PROBE_TIMEOUT_MS = 2000;
+const CLOUD_PROBE_TIMEOUT_MS = 4000;
+
+export function buildHaConnectionLike(
+  haConnection: Pick<HaConnection, 'baseUrl' | 'cloudUrl' | 'longLivedToken'> | null | undefined,
+  mode: HaMode
+): HaConnectionLike | null {
+  if (!haConnection) return null;
+  const rawUrl = mode === 'cloud' ? haConnection.cloudUrl : haConnection.baseUrl;
+  const baseUrl = (rawUrl ?? '').trim().replace(/\/+$/, '');
+  if (!baseUrl) return null;
+  return { baseUrl, longLivedToken: haConnection.longLivedToken };
+}
+
+export async function isRouteReachable(
+  haConnection: Pick<HaConnection, 'baseUrl' | 'cloudUrl' | 'longLivedToken'>,
+  mode: HaMode
+): Promise<boolean> {
+  const ha = buildHaConnectionLike(haConnection, mode);
+  if (!ha) return false;
+  return probeHaReachability(ha, mode === 'home' ? HOME_PROBE_TIMEOUT_MS : CLOUD_PROBE_TIMEOUT_MS);
+}
+
+/**
+ * Probes the home and cloud URLs in parallel and picks the route to use.
+ * The local URL always wins when it answers; cloud is only used when home
+ * is unreachable. Returns null when neither route responds.
+ */
+export async function selectHaRoute(
+  haConnection: Pick<HaConnection, 'baseUrl' | 'cloudUrl' | 'longLivedToken'>
+): Promise<HaMode | null> {
+  const homeProbe = isRouteReachable(haConnection, 'home');
+  const cloudProbe = isRouteReachable(haConnection, 'cloud');
+  if (await homeProbe) return 'home';
+  if (await cloudProbe) return 'cloud';
+  return null;
+}
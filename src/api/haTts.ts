@@ -0,0 +1,51 @@
+// src/api/haTts.ts
+import { callHaService, HaConnectionLike } from './ha';
+import { getHaSocket } from './haWebSocket';
+
+export type TtsEngine = {
+  // `tts.*` entity for current engines, or the platform name for legacy ones.
+  engineId: string;
+  name: string;
+};
+
+type TtsEngineListResult = {
+  providers: { engine_id: string; name?: string; deprecated?: boolean }[];
+};
+
+function describeEngine(engineId: string): string {
+  const bare = engineId.startsWith('tts.') ? engineId.slice(4) : engineId;
+  const spaced = bare.replace(/_/g, ' ');
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
+
+export async function listTtsEngines(ha: HaConnectionLike): Promise<TtsEngine[]> {
+  const result = await getHaSocket(ha).sendCommand<TtsEngineListResult>({
+    type: 'tts/engine/list',
+  });
+  return (result?.providers ?? [])
+    .filter((p) => !p.deprecated)
+    .map((p) => ({ engineId: p.engine_id, name: p.name ?? describeEngine(p.engine_id) }));
+}
+
+/**
+ * Speaks `message` on every player at once. Entity-based engines go through
+ * `tts.speak`; legacy platforms only expose their own `tts.<platform>_say`.
+ */
+export async function speakAnnouncement(
+  ha: HaConnectionLike,
+  engineId: string,
+  mediaPlayerIds: string[],
+  message: string
+) {
+  if (engineId.startsWith('tts.')) {
+    return callHaService(ha, 'tts', 'speak', {
+      entity_id: engineId,
+      media_player_entity_id: mediaPlayerIds,
+      message,
+    });
+  }
+  return callHaService(ha, 'tts', `${engineId}_say`, {
+    entity_id: mediaPlayerIds,
+    message,
+  });
+}
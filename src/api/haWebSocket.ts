@@ -0,0 +1,408 @@
+// src/api/haWebSocket.ts
+import type { HaConnectionLike, HAState } from './ha';
+import {
+  HaAuthError,
+  HaError,
+  HaNotFoundError,
+  HaServiceError,
+  HaTimeoutError,
+  HaUnreachableError,
+} from './haErrors';
+
+export type HaSocketStatus = 'connecting' | 'connected' | 'disconnected' | 'auth_failed' | 'closed';
+
+export type HaEvent<T = Record<string, unknown>> = {
+  event_type: string;
+  data: T;
+  origin?: string;
+  time_fired?: string;
+  context?: { id: string; user_id: string | null; parent_id: string | null };
+};
+
+export type HaStateChangedData = {
+  entity_id: string;
+  old_state: HAState | null;
+  new_state: HAState | null;
+};
+
+export type HaSocket = {
+  key: string;
+  getStatus: () => HaSocketStatus;
+  onStatusChange: (listener: (status: HaSocketStatus) => void) => () => void;
+  subscribeEvents: <T = Record<string, unknown>>(
+    eventType: string,
+    handler: (event: HaEvent<T>) => void
+  ) => () => void;
+  sendCommand: <T>(message: Record<string, unknown>, timeoutMs?: number) => Promise<T>;
+  retain: () => () => void;
+};
+
+type PendingCommand = {
+  resolve: (value: any) => void;
+  reject: (err: HaError) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+type EventSubscription = {
+  haId: number | null;
+  handlers: Set<(event: HaEvent<any>) => void>;
+};
+
+type IncomingMessage = {
+  id?: number;
+  type: string;
+  success?: boolean;
+  result?: unknown;
+  error?: { code?: string; message?: string };
+  event?: HaEvent;
+  message?: string;
+};
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+// Keep an unused socket open briefly so quick remounts don't re-authenticate.
+const IDLE_CLOSE_MS = 30000;
+const COMMAND_TIMEOUT_MS = 10000;
+// Commands give up waiting for the socket to connect and authenticate after this long.
+const CONNECT_TIMEOUT_MS = 10000;
+
+const sockets = new Map<string, HaSocket & { destroy: () => void }>();
+
+const AUTH_FAILED_MESSAGE =
+  'Dinodia Hub did not accept our access token. The homeowner needs to update the long-lived token in Dinodia Hub settings.';
+const UNAVAILABLE_MESSAGE = 'Dinodia Hub live connection is not available right now.';
+
+function socketKey(ha: HaConnectionLike) {
+  return `${ha.baseUrl}|${ha.longLivedToken}`;
+}
+
+function buildWebSocketUrl(baseUrl: string): string {
+  const normalized = baseUrl.trim().replace(/\/+$/, '');
+  return `${normalized.replace(/^http/i, 'ws')}/api/websocket`;
+}
+
+function getReconnectDelay(attempt: number) {
+  const exp = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+  // Add jitter so several tablets on the same hub don't reconnect in lockstep.
+  return Math.round(exp / 2 + Math.random() * (exp / 2));
+}
+
+function createHaSocket(ha: HaConnectionLike, onDestroyed: () => void): HaSocket & {
+  destroy: () => void;
+} {
+  const key = socketKey(ha);
+  let ws: WebSocket | null = null;
+  let status: HaSocketStatus = 'disconnected';
+  let nextId = 1;
+  let refs = 0;
+  let attempt = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let idleTimer: ReturnType<typeof setTimeout> | null = null;
+  let destroyed = false;
+  const pending = new Map<number, PendingCommand>();
+  const subscriptions = new Map<string, EventSubscription>();
+  const statusListeners = new Set<(status: HaSocketStatus) => void>();
+  // Commands issued before auth completes wait here until the socket is ready.
+  const readyWaiters: Array<{ resolve: () => void; reject: (err: HaError) => void }> = [];
+
+  function setStatus(next: HaSocketStatus) {
+    if (status === next) return;
+    status = next;
+    statusListeners.forEach((listener) => listener(next));
+    if (next === 'connected') {
+      readyWaiters.splice(0).forEach((w) => w.resolve());
+    } else if (next !== 'connecting') {
+      const err =
+        next === 'auth_failed'
+          ? new HaAuthError(AUTH_FAILED_MESSAGE, { path: 'websocket' })
+          : new HaUnreachableError(UNAVAILABLE_MESSAGE, { path: 'websocket' });
+      readyWaiters.splice(0).forEach((w) => w.reject(err));
+    }
+  }
+
+  function rejectPending(reason: string) {
+    pending.forEach((p) => {
+      clearTimeout(p.timer);
+      p.reject(new HaUnreachableError(reason, { path: 'websocket' }));
+    });
+    pending.clear();
+  }
+
+  function rawSend(message: Record<string, unknown>) {
+    if (!ws || ws.readyState !== 1) return false;
+    ws.send(JSON.stringify(message));
+    return true;
+  }
+
+  function request<T>(
+    message: Record<string, unknown>,
+    timeoutMs: number,
+    id: number = nextId++
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pending.delete(id);
+        reject(
+          new HaTimeoutError('Dinodia Hub took too long to respond. Please try again.', {
+            path: String(message.type),
+          })
+        );
+      }, timeoutMs);
+      pending.set(id, { resolve, reject, timer });
+      if (!rawSend({ ...message, id })) {
+        clearTimeout(timer);
+        pending.delete(id);
+        reject(new HaUnreachableError(UNAVAILABLE_MESSAGE, { path: String(message.type) }));
+      }
+    });
+  }
+
+  function subscribeRemote(eventType: string, sub: EventSubscription) {
+    // HA tags every event with the id of the subscribe request itself.
+    const id = nextId++;
+    sub.haId = id;
+    request<null>({ type: 'subscribe_events', event_type: eventType }, COMMAND_TIMEOUT_MS, id).catch(
+      (err) => {
+        if (sub.haId === id) sub.haId = null;
+        if (__DEV__) {
+          // eslint-disable-next-line no-console
+          console.log('HA websocket subscribe failed', eventType, err);
+        }
+      }
+    );
+  }
+
+  function handleMessage(msg: IncomingMessage) {
+    switch (msg.type) {
+      case 'auth_required':
+        rawSend({ type: 'auth', access_token: ha.longLivedToken });
+        return;
+      case 'auth_ok':
+        attempt = 0;
+        setStatus('connected');
+        subscriptions.forEach((sub, eventType) => subscribeRemote(eventType, sub));
+        return;
+      case 'auth_invalid':
+        setStatus('auth_failed');
+        ws?.close();
+        return;
+      case 'result': {
+        if (typeof msg.id !== 'number') return;
+        const entry = pending.get(msg.id);
+        if (!entry) return;
+        pending.delete(msg.id);
+        clearTimeout(entry.timer);
+        if (msg.success) {
+          entry.resolve(msg.result ?? null);
+        } else {
+          const message = msg.error?.message || 'Dinodia Hub could not complete that request.';
+          entry.reject(
+            msg.error?.code === 'not_found'
+              ? new HaNotFoundError(message, { path: 'websocket' })
+              : msg.error?.code === 'unauthorized'
+              ? new HaAuthError(AUTH_FAILED_MESSAGE, { path: 'websocket' })
+              : new HaServiceError(message, { path: 'websocket' })
+          );
+        }
+        return;
+      }
+      case 'event': {
+        if (!msg.event) return;
+        for (const sub of subscriptions.values()) {
+          if (sub.haId === msg.id) {
+            sub.handlers.forEach((handler) => handler(msg.event as HaEvent));
+            break;
+          }
+        }
+        return;
+      }
+      default:
+        return;
+    }
+  }
+
+  function connect() {
+    if (destroyed || ws) return;
+    if (typeof WebSocket === 'undefined') {
+      setStatus('disconnected');
+      return;
+    }
+    setStatus('connecting');
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(buildWebSocketUrl(ha.baseUrl));
+    } catch {
+      setStatus('disconnected');
+      scheduleReconnect();
+      return;
+    }
+    ws = socket;
+    socket.onmessage = (e) => {
+      try {
+        handleMessage(JSON.parse(String(e.data)) as IncomingMessage);
+      } catch {
+        // Ignore malformed frames; HA only ever sends JSON.
+      }
+    };
+    socket.onerror = () => {
+      // onclose always follows; reconnect handling lives there.
+    };
+    socket.onclose = () => {
+      if (ws !== socket) return;
+      ws = null;
+      subscriptions.forEach((sub) => {
+        sub.haId = null;
+      });
+      rejectPending('Dinodia Hub live connection was interrupted.');
+      if (destroyed) {
+        setStatus('closed');
+        return;
+      }
+      if (status === 'auth_failed') return;
+      setStatus('disconnected');
+      scheduleReconnect();
+    };
+  }
+
+  function scheduleReconnect() {
+    if (destroyed || refs === 0 || reconnectTimer) return;
+    const delay = getReconnectDelay(attempt);
+    attempt += 1;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, delay);
+  }
+
+  function destroy() {
+    if (destroyed) return;
+    destroyed = true;
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    if (idleTimer) clearTimeout(idleTimer);
+    reconnectTimer = null;
+    idleTimer = null;
+    rejectPending('Dinodia Hub live connection was closed.');
+    const current = ws;
+    ws = null;
+    current?.close();
+    setStatus('closed');
+    statusListeners.clear();
+    subscriptions.clear();
+    onDestroyed();
+  }
+
+  function retain() {
+    refs += 1;
+    if (idleTimer) {
+      clearTimeout(idleTimer);
+      idleTimer = null;
+    }
+    if (!ws && !reconnectTimer && status !== 'auth_failed') connect();
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      refs = Math.max(0, refs - 1);
+      if (refs === 0 && !idleTimer) {
+        idleTimer = setTimeout(destroy, IDLE_CLOSE_MS);
+      }
+    };
+  }
+
+  function waitUntilReady(): Promise<void> {
+    if (status === 'connected') return Promise.resolve();
+    if (status === 'auth_failed') {
+      return Promise.reject(new HaAuthError(AUTH_FAILED_MESSAGE, { path: 'websocket' }));
+    }
+    if (destroyed || typeof WebSocket === 'undefined') {
+      return Promise.reject(new HaUnreachableError(UNAVAILABLE_MESSAGE, { path: 'websocket' }));
+    }
+    return new Promise((resolve, reject) => {
+      // A socket stuck connecting (or backing off between attempts) must not hold callers forever.
+      const timer = setTimeout(() => {
+        const index = readyWaiters.indexOf(waiter);
+        if (index >= 0) readyWaiters.splice(index, 1);
+        reject(new HaUnreachableError(UNAVAILABLE_MESSAGE, { path: 'websocket' }));
+      }, CONNECT_TIMEOUT_MS);
+      const waiter = {
+        resolve: () => {
+          clearTimeout(timer);
+          resolve();
+        },
+        reject: (err: HaError) => {
+          clearTimeout(timer);
+          reject(err);
+        },
+      };
+      readyWaiters.push(waiter);
+    });
+  }
+
+  return {
+    key,
+    getStatus: () => status,
+    onStatusChange(listener) {
+      statusListeners.add(listener);
+      return () => {
+        statusListeners.delete(listener);
+      };
+    },
+    subscribeEvents(eventType, handler) {
+      const release = retain();
+      let sub = subscriptions.get(eventType);
+      if (!sub) {
+        sub = { haId: null, handlers: new Set() };
+        subscriptions.set(eventType, sub);
+        if (status === 'connected') subscribeRemote(eventType, sub);
+      }
+      sub.handlers.add(handler as (event: HaEvent<any>) => void);
+      return () => {
+        const current = subscriptions.get(eventType);
+        if (current) {
+          current.handlers.delete(handler as (event: HaEvent<any>) => void);
+          if (current.handlers.size === 0) {
+            subscriptions.delete(eventType);
+            if (current.haId !== null && status === 'connected') {
+              void request({ type: 'unsubscribe_events', subscription: current.haId }, COMMAND_TIMEOUT_MS).catch(
+                () => undefined
+              );
+            }
+          }
+        }
+        release();
+      };
+    },
+    async sendCommand<T>(message: Record<string, unknown>, timeoutMs = COMMAND_TIMEOUT_MS) {
+      const release = retain();
+      try {
+        await waitUntilReady();
+        return await request<T>(message, timeoutMs);
+      } finally {
+        release();
+      }
+    },
+    retain,
+    destroy,
+  };
+}
+
+/**
+ * Returns the shared live connection for a hub. Sockets are reference counted:
+ * they connect on first use, reconnect with backoff while anyone holds them and
+ * close themselves shortly after the last holder lets go.
+ */
+export function getHaSocket(ha: HaConnectionLike): HaSocket {
+  const key = socketKey(ha);
+  const existing = sockets.get(key);
+  if (existing) return existing;
+  const socket = createHaSocket(ha, () => {
+    if (sockets.get(key) === socket) sockets.delete(key);
+  });
+  sockets.set(key, socket);
+  return socket;
+}
+
+export function closeAllHaSockets(): void {
+  Array.from(sockets.values()).forEach((socket) => socket.destroy());
+  sockets.clear();
+}
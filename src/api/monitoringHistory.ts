@@ -2,6 +2,7 @@
 import { supabase } from './supabaseClient';
 import { getUserWithHaConnection } from './dinodia';
 import { ENV } from '../config/env';
+import { isCumulativeUnit } from '../utils/unitFormat';
 
 export type HistoryBucket = 'daily' | 'weekly' | 'monthly';
 
@@ -196,7 +197,7 @@ export async function fetchSensorHistoryForCurrentUser(
     }
   }
 
-  const shouldUseSum = typeof unit === 'string' && unit.toLowerCase().includes('wh');
+  const shouldUseSum = isCumulativeUnit(unit);
 
   const points: HistoryPoint[] = Object.values(buckets)
     .filter((b) => b.count > 0)
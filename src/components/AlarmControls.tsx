@@ -0,0 +1,249 @@
+// src/components/AlarmControls.tsx
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import type { UIDevice } from '../models/device';
+import type { CommandHandler } from '../utils/haCommands';
+import { alarmNeedsCode, isCommandAvailable } from '../utils/commandRegistry';
+import {
+  clearFailedDisarms,
+  getDisarmLockoutRemaining,
+  recordFailedDisarm,
+} from '../store/alarmLockout';
+import { getAlarmStatus } from './deviceVisuals';
+
+type Props = {
+  panels: UIDevice[];
+  pendingCommand: string | null;
+  onCommand: CommandHandler;
+};
+
+const ARM_ACTIONS: { command: string; label: string }[] = [
+  { command: 'alarm/arm_home', label: 'Arm home' },
+  { command: 'alarm/arm_away', label: 'Arm away' },
+  { command: 'alarm/arm_night', label: 'Arm night' },
+];
+
+const KEYPAD_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'clear', '0', 'back'];
+
+export function AlarmControls({ panels, pendingCommand, onCommand }: Props) {
+  if (panels.length === 0) return null;
+  return (
+    <View style={styles.section}>
+      {panels.map((panel) => (
+        <AlarmPanel
+          key={panel.entityId}
+          panel={panel}
+          pendingCommand={pendingCommand}
+          onCommand={onCommand}
+        />
+      ))}
+    </View>
+  );
+}
+
+function AlarmPanel({
+  panel,
+  pendingCommand,
+  onCommand,
+}: {
+  panel: UIDevice;
+  pendingCommand: string | null;
+  onCommand: CommandHandler;
+}) {
+  const attrs = panel.attributes ?? {};
+  const state = (panel.state ?? '').toString().toLowerCase();
+  const disarmed = state === 'disarmed';
+  // Predicted after a disarm; stays until the hub reports the panel disarmed.
+  const disarming = state === 'disarming';
+  const alerting = state === 'triggered' || state === 'pending';
+  const busy = !!pendingCommand;
+  const [code, setCode] = useState('');
+  const [lockoutMs, setLockoutMs] = useState(0);
+
+  const armActions = ARM_ACTIONS.filter((action) => isCommandAvailable(action.command, panel));
+  const needsCode = disarmed ? alarmNeedsCode(attrs, true) : alarmNeedsCode(attrs, false);
+  const numericCode = attrs.code_format === 'number';
+
+  useEffect(() => {
+    let active = true;
+    void getDisarmLockoutRemaining(panel.entityId).then((ms) => {
+      if (active) setLockoutMs(ms);
+    });
+    return () => {
+      active = false;
+    };
+  }, [panel.entityId]);
+
+  const lockedOut = lockoutMs > 0;
+  useEffect(() => {
+    if (!lockedOut) return;
+    const id = setInterval(() => {
+      void getDisarmLockoutRemaining(panel.entityId).then(setLockoutMs);
+    }, 1000);
+    return () => clearInterval(id);
+  }, [lockedOut, panel.entityId]);
+
+  useEffect(() => {
+    setCode('');
+  }, [state]);
+
+  async function send(command: string) {
+    const result = await onCommand(command, needsCode ? code : undefined, panel);
+    setCode('');
+    if (command !== 'alarm/disarm' || !needsCode) return;
+    if (result.ok) {
+      void clearFailedDisarms(panel.entityId);
+    } else if (result.errorKind === 'service') {
+      // HA answers a wrong code with a rejected service call.
+      setLockoutMs(await recordFailedDisarm(panel.entityId));
+    }
+  }
+
+  function pressKey(key: string) {
+    if (key === 'clear') setCode('');
+    else if (key === 'back') setCode((c) => c.slice(0, -1));
+    else setCode((c) => (c.length >= 12 ? c : c + key));
+  }
+
+  return (
+    <View style={[styles.panel, alerting && styles.panelAlert]}>
+      <Text style={styles.panelName}>{panel.name}</Text>
+      <Text
+        style={[
+          styles.panelState,
+          state === 'triggered' && styles.stateTriggered,
+          state === 'pending' && styles.statePending,
+        ]}
+      >
+        {getAlarmStatus(panel)}
+      </Text>
+
+      {needsCode && !disarming && (
+        <View style={styles.keypadBlock}>
+          {numericCode ? (
+            <Text style={styles.codeDisplay}>{code ? '•'.repeat(code.length) : 'Enter code'}</Text>
+          ) : (
+            <TextInput
+              style={styles.codeInput}
+              value={code}
+              onChangeText={setCode}
+              placeholder="Alarm code"
+              secureTextEntry
+              autoComplete="off"
+              editable={!busy && !(lockedOut && !disarmed)}
+            />
+          )}
+          {numericCode && (
+            <View style={styles.keypad}>
+              {KEYPAD_KEYS.map((key) => (
+                <TouchableOpacity
+                  key={key}
+                  style={styles.key}
+                  onPress={() => pressKey(key)}
+                  disabled={busy || (lockedOut && !disarmed)}
+                >
+                  <Text style={styles.keyText}>
+                    {key === 'clear' ? 'C' : key === 'back' ? '⌫' : key}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </View>
+      )}
+
+      {disarming ? (
+        <Text style={styles.waitingText}>Waiting for the hub to confirm…</Text>
+      ) : disarmed ? (
+        <View style={styles.actionRow}>
+          {armActions.map((action) => (
+            <TouchableOpacity
+              key={action.command}
+              style={styles.armButton}
+              onPress={() => void send(action.command)}
+              disabled={busy || (needsCode && !code)}
+            >
+              <Text style={styles.armButtonText}>{action.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      ) : lockedOut ? (
+        <Text style={styles.lockoutText}>
+          Too many wrong codes. Try again in {Math.ceil(lockoutMs / 1000)}s.
+        </Text>
+      ) : (
+        <TouchableOpacity
+          style={styles.disarmButton}
+          onPress={() => void send('alarm/disarm')}
+          disabled={busy || (needsCode && !code)}
+        >
+          <Text style={styles.disarmButtonText}>Disarm</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: { marginBottom: 18 },
+  panel: {
+    backgroundColor: '#fff',
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    padding: 14,
+    marginBottom: 12,
+  },
+  panelAlert: { backgroundColor: '#fef2f2', borderColor: '#f87171' },
+  panelName: { fontSize: 13, color: '#6b7280', fontWeight: '600' },
+  panelState: { fontSize: 20, fontWeight: '700', color: '#111827', marginTop: 4 },
+  stateTriggered: { color: '#dc2626', fontSize: 24 },
+  statePending: { color: '#d97706' },
+  keypadBlock: { marginTop: 12 },
+  codeDisplay: {
+    textAlign: 'center',
+    fontSize: 22,
+    letterSpacing: 6,
+    color: '#111827',
+    marginBottom: 10,
+  },
+  codeInput: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    backgroundColor: '#fff',
+  },
+  keypad: { flexDirection: 'row', flexWrap: 'wrap', justifyContent: 'space-between' },
+  key: {
+    width: '31%',
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#f3f4f6',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  keyText: { fontSize: 20, fontWeight: '600', color: '#111827' },
+  actionRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 12 },
+  armButton: {
+    flexGrow: 1,
+    backgroundColor: '#4f46e5',
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  armButtonText: { color: '#fff', fontSize: 14, fontWeight: '700' },
+  disarmButton: {
+    marginTop: 12,
+    backgroundColor: '#111827',
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  disarmButtonText: { color: '#fff', fontSize: 15, fontWeight: '700' },
+  waitingText: { marginTop: 12, color: '#6b7280', fontWeight: '600', textAlign: 'center' },
+  lockoutText: { marginTop: 12, color: '#b91c1c', fontWeight: '600', textAlign: 'center' },
+});
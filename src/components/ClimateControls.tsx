@@ -0,0 +1,318 @@
+// src/components/ClimateControls.tsx
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import Slider from '@react-native-community/slider';
+import type { UIDevice } from '../models/device';
+import type { CommandHandler } from '../utils/haCommands';
+import {
+  getClimateSetpointParam,
+  isCommandAvailable,
+  NumberCommandParam,
+} from '../utils/commandRegistry';
+
+type Props = {
+  device: UIDevice;
+  pendingCommand: string | null;
+  onCommand: CommandHandler;
+};
+
+// Taps on +/- are batched so a run of presses becomes one service call.
+const STEP_COMMIT_DELAY_MS = 700;
+
+export function ClimateControls({ device, pendingCommand, onCommand }: Props) {
+  const attrs = device.attributes ?? {};
+  const state = (device.state ?? '').toString();
+  const setpoint = getClimateSetpointParam(attrs);
+  const current = typeof attrs.current_temperature === 'number' ? attrs.current_temperature : null;
+  const action = typeof attrs.hvac_action === 'string' ? attrs.hvac_action : null;
+
+  const hasSingle = isCommandAvailable('climate/set_temperature', device);
+  const hasRange =
+    isCommandAvailable('climate/set_target_low', device) &&
+    isCommandAvailable('climate/set_target_high', device);
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.statusRow}>
+        <View>
+          <Text style={styles.statusLabel}>Now</Text>
+          <Text style={styles.statusValue}>
+            {current !== null ? formatTemperature(current, setpoint) : '—'}
+          </Text>
+        </View>
+        <View style={styles.statusRight}>
+          <Text style={styles.statusLabel}>Status</Text>
+          <Text style={styles.statusValue}>{formatMode(action ?? state)}</Text>
+        </View>
+      </View>
+
+      {hasSingle && (
+        <SetpointDial
+          label="Target"
+          value={attrs.temperature as number}
+          param={setpoint}
+          disabled={!!pendingCommand}
+          onCommit={(value) => onCommand('climate/set_temperature', value)}
+        />
+      )}
+      {hasRange && (
+        <>
+          <SetpointDial
+            label="Heat to"
+            value={attrs.target_temp_low as number}
+            param={setpoint}
+            disabled={!!pendingCommand}
+            onCommit={(value) => onCommand('climate/set_target_low', value)}
+          />
+          <SetpointDial
+            label="Cool to"
+            value={attrs.target_temp_high as number}
+            param={setpoint}
+            disabled={!!pendingCommand}
+            onCommit={(value) => onCommand('climate/set_target_high', value)}
+          />
+        </>
+      )}
+      {!hasSingle && !hasRange && state !== 'off' && (
+        <Text style={styles.hint}>This device does not report a target temperature.</Text>
+      )}
+
+      <OptionChips
+        title="Mode"
+        options={readOptions(attrs.hvac_modes)}
+        selected={state}
+        disabled={!!pendingCommand}
+        onSelect={(mode) => onCommand('climate/set_hvac_mode', mode)}
+      />
+      <OptionChips
+        title="Preset"
+        options={readOptions(attrs.preset_modes)}
+        selected={typeof attrs.preset_mode === 'string' ? attrs.preset_mode : null}
+        disabled={!!pendingCommand}
+        onSelect={(preset) => onCommand('climate/set_preset_mode', preset)}
+      />
+      <OptionChips
+        title="Fan"
+        options={readOptions(attrs.fan_modes)}
+        selected={typeof attrs.fan_mode === 'string' ? attrs.fan_mode : null}
+        disabled={!!pendingCommand}
+        onSelect={(fan) => onCommand('climate/set_fan_mode', fan)}
+      />
+    </View>
+  );
+}
+
+function SetpointDial({
+  label,
+  value,
+  param,
+  disabled,
+  onCommit,
+}: {
+  label: string;
+  value: number;
+  param: NumberCommandParam;
+  disabled: boolean;
+  onCommit: (value: number) => void;
+}) {
+  const step = param.step ?? 1;
+  const [draft, setDraft] = useState(value);
+  const commitTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const dirty = useRef(false);
+
+  // Follow the hub while the user isn't mid-adjustment.
+  useEffect(() => {
+    if (!dirty.current) setDraft(value);
+  }, [value]);
+
+  useEffect(
+    () => () => {
+      if (commitTimer.current) clearTimeout(commitTimer.current);
+    },
+    []
+  );
+
+  const commit = (next: number) => {
+    if (commitTimer.current) clearTimeout(commitTimer.current);
+    commitTimer.current = null;
+    dirty.current = false;
+    if (next !== value) onCommit(next);
+  };
+
+  const nudge = (direction: 1 | -1) => {
+    const next = clampToStep(draft + direction * step, param);
+    dirty.current = true;
+    setDraft(next);
+    if (commitTimer.current) clearTimeout(commitTimer.current);
+    commitTimer.current = setTimeout(() => commit(next), STEP_COMMIT_DELAY_MS);
+  };
+
+  return (
+    <View style={styles.dial}>
+      <Text style={styles.dialLabel}>{label}</Text>
+      <View style={styles.dialRow}>
+        <TouchableOpacity
+          style={styles.dialButton}
+          onPress={() => nudge(-1)}
+          disabled={disabled || draft <= param.min}
+        >
+          <Text style={styles.dialButtonText}>−</Text>
+        </TouchableOpacity>
+        <Text style={styles.dialValue}>{formatTemperature(draft, param)}</Text>
+        <TouchableOpacity
+          style={styles.dialButton}
+          onPress={() => nudge(1)}
+          disabled={disabled || draft >= param.max}
+        >
+          <Text style={styles.dialButtonText}>+</Text>
+        </TouchableOpacity>
+      </View>
+      <Slider
+        minimumValue={param.min}
+        maximumValue={param.max}
+        step={step}
+        value={draft}
+        disabled={disabled}
+        onValueChange={(val) => {
+          dirty.current = true;
+          setDraft(clampToStep(val, param));
+        }}
+        onSlidingComplete={(val) => commit(clampToStep(val, param))}
+        minimumTrackTintColor="#f97316"
+        maximumTrackTintColor="#e5e7eb"
+        thumbTintColor="#f97316"
+      />
+      <View style={styles.boundsRow}>
+        <Text style={styles.boundsText}>{formatTemperature(param.min, param)}</Text>
+        <Text style={styles.boundsText}>{formatTemperature(param.max, param)}</Text>
+      </View>
+    </View>
+  );
+}
+
+function OptionChips({
+  title,
+  options,
+  selected,
+  disabled,
+  onSelect,
+}: {
+  title: string;
+  options: string[];
+  selected: string | null;
+  disabled: boolean;
+  onSelect: (option: string) => void;
+}) {
+  if (options.length === 0) return null;
+  return (
+    <View style={styles.chipBlock}>
+      <Text style={styles.chipTitle}>{title}</Text>
+      <View style={styles.chipRow}>
+        {options.map((option) => {
+          const isSelected = option === selected;
+          return (
+            <TouchableOpacity
+              key={option}
+              style={[styles.chip, isSelected && styles.chipSelected]}
+              onPress={() => {
+                if (!isSelected) onSelect(option);
+              }}
+              disabled={disabled}
+              activeOpacity={0.8}
+            >
+              <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                {formatMode(option)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+function readOptions(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+function clampToStep(value: number, param: NumberCommandParam): number {
+  const step = param.step ?? 1;
+  const snapped = param.min + Math.round((value - param.min) / step) * step;
+  return Number(Math.min(param.max, Math.max(param.min, snapped)).toFixed(4));
+}
+
+function formatTemperature(value: number, param: NumberCommandParam): string {
+  const decimals = (param.step ?? 1) < 1 ? 1 : 0;
+  return `${value.toFixed(decimals)}${param.unit ?? '°'}`;
+}
+
+const MODE_LABELS: Record<string, string> = {
+  heat_cool: 'Heat/Cool',
+  fan_only: 'Fan only',
+  idle: 'Idle',
+  off: 'Off',
+};
+
+function formatMode(mode: string): string {
+  if (!mode) return '—';
+  if (MODE_LABELS[mode]) return MODE_LABELS[mode];
+  const spaced = mode.replace(/_/g, ' ');
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
+
+const styles = StyleSheet.create({
+  section: { marginBottom: 18 },
+  statusRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    backgroundColor: '#fff',
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    marginBottom: 12,
+  },
+  statusRight: { alignItems: 'flex-end' },
+  statusLabel: { fontSize: 11, color: '#6b7280', textTransform: 'uppercase', letterSpacing: 1 },
+  statusValue: { fontSize: 18, fontWeight: '700', color: '#111827', marginTop: 2 },
+  hint: { fontSize: 12, color: '#6b7280', marginBottom: 12 },
+  dial: {
+    backgroundColor: '#fff7ed',
+    borderRadius: 18,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    marginBottom: 12,
+  },
+  dialLabel: { fontSize: 13, color: '#9a3412', fontWeight: '600' },
+  dialRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginVertical: 8,
+  },
+  dialButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#fed7aa',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dialButtonText: { fontSize: 22, fontWeight: '700', color: '#9a3412' },
+  dialValue: { fontSize: 34, fontWeight: '700', color: '#111827' },
+  boundsRow: { flexDirection: 'row', justifyContent: 'space-between' },
+  boundsText: { fontSize: 11, color: '#9ca3af' },
+  chipBlock: { marginTop: 6, marginBottom: 10 },
+  chipTitle: { fontSize: 13, fontWeight: '700', color: '#111827', marginBottom: 8 },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: {
+    paddingVertical: 7,
+    paddingHorizontal: 12,
+    borderRadius: 999,
+    backgroundColor: '#f3f4f6',
+  },
+  chipSelected: { backgroundColor: '#111827' },
+  chipText: { fontSize: 13, color: '#111827', fontWeight: '600' },
+  chipTextSelected: { color: '#fff' },
+});
@@ -0,0 +1,163 @@
+// src/components/CoverControls.tsx
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import Slider from '@react-native-community/slider';
+import type { UIDevice } from '../models/device';
+import type { CommandHandler } from '../utils/haCommands';
+import { isCommandAvailable } from '../utils/commandRegistry';
+import { getCoverPosition, getCoverStatus } from './deviceVisuals';
+
+type Props = {
+  device: UIDevice;
+  pendingCommand: string | null;
+  onCommand: CommandHandler;
+};
+
+export function CoverControls({ device, pendingCommand, onCommand }: Props) {
+  const attrs = device.attributes ?? {};
+  const state = (device.state ?? '').toString().toLowerCase();
+  const moving = state === 'opening' || state === 'closing';
+  const position = getCoverPosition(device);
+  const tilt = typeof attrs.current_tilt_position === 'number' ? attrs.current_tilt_position : null;
+
+  const canPosition = isCommandAvailable('blind/set_position', device);
+  const canTilt = isCommandAvailable('blind/set_tilt', device);
+  const canStop = isCommandAvailable('blind/stop', device);
+
+  // Slider values track the hub until the user grabs them.
+  const [positionDraft, setPositionDraft] = useState(position ?? 0);
+  const [tiltDraft, setTiltDraft] = useState(tilt ?? 0);
+  useEffect(() => {
+    if (position !== null) setPositionDraft(position);
+  }, [position]);
+  useEffect(() => {
+    if (tilt !== null) setTiltDraft(tilt);
+  }, [tilt]);
+
+  const busy = !!pendingCommand;
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.statusRow}>
+        <Text style={styles.statusText}>{getCoverStatus(device)}</Text>
+        {moving && <Text style={styles.movingText}>{state === 'opening' ? '▲' : '▼'}</Text>}
+      </View>
+      {position !== null && (
+        <View style={styles.progressTrack}>
+          <View
+            style={[
+              styles.progressFill,
+              { width: `${position}%` },
+              moving && styles.progressFillMoving,
+            ]}
+          />
+        </View>
+      )}
+
+      <View style={styles.row}>
+        <TouchableOpacity
+          style={styles.button}
+          onPress={() => onCommand('blind/open')}
+          disabled={busy}
+        >
+          <Text style={styles.buttonText}>Open</Text>
+        </TouchableOpacity>
+        {canStop && (
+          <TouchableOpacity
+            style={[styles.button, moving && styles.stopActive]}
+            onPress={() => onCommand('blind/stop')}
+            disabled={busy}
+          >
+            <Text style={[styles.buttonText, moving && styles.stopActiveText]}>Stop</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={styles.button}
+          onPress={() => onCommand('blind/close')}
+          disabled={busy}
+        >
+          <Text style={styles.buttonText}>Close</Text>
+        </TouchableOpacity>
+      </View>
+
+      {canPosition && (
+        <View style={styles.sliderBlock}>
+          <Text style={styles.sliderLabel}>Position {Math.round(positionDraft)}%</Text>
+          <Slider
+            minimumValue={0}
+            maximumValue={100}
+            step={1}
+            value={positionDraft}
+            disabled={busy}
+            onValueChange={setPositionDraft}
+            onSlidingComplete={(val) => {
+              void onCommand('blind/set_position', val);
+            }}
+            minimumTrackTintColor="#06b6d4"
+            maximumTrackTintColor="#e5e7eb"
+            thumbTintColor="#06b6d4"
+          />
+          <View style={styles.boundsRow}>
+            <Text style={styles.boundsText}>Closed</Text>
+            <Text style={styles.boundsText}>Open</Text>
+          </View>
+        </View>
+      )}
+      {canTilt && (
+        <View style={styles.sliderBlock}>
+          <Text style={styles.sliderLabel}>Tilt {Math.round(tiltDraft)}%</Text>
+          <Slider
+            minimumValue={0}
+            maximumValue={100}
+            step={1}
+            value={tiltDraft}
+            disabled={busy}
+            onValueChange={setTiltDraft}
+            onSlidingComplete={(val) => {
+              void onCommand('blind/set_tilt', val);
+            }}
+            minimumTrackTintColor="#0891b2"
+            maximumTrackTintColor="#e5e7eb"
+            thumbTintColor="#0891b2"
+          />
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: { marginBottom: 18 },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  statusText: { fontSize: 16, fontWeight: '700', color: '#111827' },
+  movingText: { fontSize: 14, color: '#0891b2', fontWeight: '700' },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#e5e7eb',
+    overflow: 'hidden',
+    marginBottom: 14,
+  },
+  progressFill: { height: '100%', backgroundColor: '#22d3ee' },
+  progressFillMoving: { backgroundColor: '#0891b2' },
+  row: { flexDirection: 'row', columnGap: 10 },
+  button: {
+    flex: 1,
+    backgroundColor: '#eef2ff',
+    paddingVertical: 10,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  buttonText: { color: '#111827', fontSize: 14, fontWeight: '600' },
+  stopActive: { backgroundColor: '#111827' },
+  stopActiveText: { color: '#fff' },
+  sliderBlock: { marginTop: 14 },
+  sliderLabel: { fontSize: 13, color: '#111827', marginBottom: 6 },
+  boundsRow: { flexDirection: 'row', justifyContent: 'space-between' },
+  boundsText: { fontSize: 11, color: '#9ca3af' },
+});
@@ -3,9 +3,28 @@ import React, { memo, useMemo, useState } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, Alert, ActivityIndicator } from 'react-native';
 import type { UIDevice } from '../models/device';
 import { getPrimaryLabel } from '../utils/deviceLabels';
-import { handleDeviceCommand } from '../utils/haCommands';
+import { getBinarySensorStatus, isHazardActive } from '../utils/binarySensors';
+import { runDeviceCommand } from '../utils/haCommands';
+import { isCommandAvailable, lockNeedsCode } from '../utils/commandRegistry';
+import { showHaCommandError, showHubNotReady, showStaleDataNotice } from '../utils/haErrorAlerts';
+import { getHaErrorKind } from '../api/haErrors';
 import { useSession } from '../store/sessionStore';
-import { getDevicePreset, isDeviceActive } from './deviceVisuals';
+import { useUnitPreferences } from '../store/unitPreferences';
+import { formatSensorState, UnitPreferences } from '../utils/unitFormat';
+import { isCommandQueueable, queueCommandForLater, QueuedCommand } from '../store/commandQueue';
+import {
+  getAlarmStatus,
+  getCoverStatus,
+  getDevicePreset,
+  getFanStatus,
+  getHelperStatus,
+  getLightTint,
+  getLockStatus,
+  getVacuumStatus,
+  isAlarmTriggered,
+  isDeviceActive,
+  isLockJammed,
+} from './deviceVisuals';
 
 export type DeviceCardSize = 'small' | 'medium' | 'large';
 
@@ -15,32 +34,33 @@ type Props = {
   size?: DeviceCardSize;
   onAfterCommand?: () => Promise<void> | void;
   onOpenDetails?: (device: UIDevice) => void;
+  onOpenHubSettings?: () => void;
+  queuedCommands?: QueuedCommand[];
+  // Showing a saved snapshot; the primary action is offered for the queue instead of sent.
+  stale?: boolean;
 };
 
 export const DeviceCard = memo(function DeviceCard({
   device,
+  isAdmin,
   size = 'small',
   onAfterCommand,
   onOpenDetails,
+  onOpenHubSettings,
+  queuedCommands,
+  stale = false,
 }: Props) {
   const label = getPrimaryLabel(device);
-  const { session, haMode } = useSession();
+  const { session, activeHa: ha, haMode, reportHaRouteFailure } = useSession();
   const [pending, setPending] = useState(false);
-  const connection = session.haConnection;
-  const baseUrlRaw = haMode === 'cloud' ? connection?.cloudUrl ?? '' : connection?.baseUrl ?? '';
-  const baseUrl = baseUrlRaw.trim().replace(/\/+$/, '');
-  const ha =
-    baseUrl && connection
-      ? {
-          baseUrl,
-          longLivedToken: connection.longLivedToken,
-        }
-      : null;
+  const { units } = useUnitPreferences(session.user?.id);
 
   const primaryAction = getPrimaryAction(label, device);
   const preset = useMemo(() => getDevicePreset(label), [label]);
   const active = useMemo(() => isDeviceActive(label, device), [label, device]);
-  const secondaryText = useMemo(() => getSecondaryLine(device), [device]);
+  const hazard = isHazardActive(device);
+  const secondaryText = useMemo(() => getSecondaryLine(device, units), [device, units]);
+  const lightTint = useMemo(() => (label === 'Light' ? getLightTint(device) : null), [label, device]);
 
   const sizeStyles =
     size === 'small'
@@ -63,23 +83,53 @@ export const DeviceCard = memo(function DeviceCard({
       ? { fontSize: 12 }
       : { fontSize: 13 };
 
-  async function onPrimaryPress() {
+  function onPrimaryPress() {
     if (!primaryAction) return;
+    if (label === 'Lock') {
+      // Codes are typed in the detail sheet, and unlocking always asks first.
+      if (lockNeedsCode(device.attributes ?? {})) {
+        onOpenDetails && onOpenDetails(device);
+        return;
+      }
+      if (primaryAction.command === 'lock/unlock') {
+        Alert.alert(`Unlock ${device.name}?`, undefined, [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Unlock', style: 'destructive', onPress: () => void sendPrimaryAction() },
+        ]);
+        return;
+      }
+    }
+    if (primaryAction.command === 'helper/press' && device.domain === 'button') {
+      Alert.alert(`Press ${device.name}?`, undefined, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Press', onPress: () => void sendPrimaryAction() },
+      ]);
+      return;
+    }
+    void sendPrimaryAction();
+  }
+
+  async function sendPrimaryAction() {
+    if (!primaryAction) return;
+    const userId = session.user?.id;
+    const queueAction =
+      userId && isCommandQueueable(primaryAction.command)
+        ? () => queueCommandForLater(userId, device, primaryAction.command, primaryAction.value)
+        : undefined;
     if (!ha) {
-      Alert.alert(
-        'Almost there',
-        haMode === 'cloud'
-          ? 'Dinodia Cloud is not ready yet. The homeowner needs to finish setting up remote access for this property.'
-          : 'We cannot find your Dinodia Hub on the home Wi-Fi. It looks like you are away from home—switch to Dinodia Cloud to control your place.'
-      );
+      showHubNotReady(haMode, queueAction);
+      return;
+    }
+    if (stale) {
+      showStaleDataNotice(queueAction);
       return;
     }
     if (pending) return;
     setPending(true);
     try {
-      await handleDeviceCommand({
+      await runDeviceCommand({
         ha,
-        entityId: device.entityId,
+        device,
         command: primaryAction.command,
         value: primaryAction.value,
       });
@@ -89,12 +139,8 @@ export const DeviceCard = memo(function DeviceCard({
         // eslint-disable-next-line no-console
         console.log('device command error', err);
       }
-      Alert.alert(
-        'We could not complete that',
-        err instanceof Error && err.message
-          ? err.message
-          : 'We could not send that to your Dinodia Hub. Please try again.'
-      );
+      if (getHaErrorKind(err) === 'unreachable') reportHaRouteFailure();
+      showHaCommandError(err, { isAdmin, onOpenHubSettings, onQueue: queueAction });
     } finally {
       setPending(false);
     }
@@ -114,17 +160,30 @@ export const DeviceCard = memo(function DeviceCard({
           borderColor: active ? 'rgba(0,0,0,0.08)' : '#e5e7eb',
           opacity: active ? 1 : 0.9,
         },
+        hazard && styles.cardAlert,
       ]}
     >
       <View style={styles.topRow}>
         <Text style={[styles.label, { color: active ? '#0f172a' : '#9ca3af' }]}>{label}</Text>
+        {device.pending ? (
+          <Text style={styles.pendingText}>Updating…</Text>
+        ) : queuedCommands && queuedCommands.length > 0 ? (
+          <Text style={styles.queuedText}>
+            Queued: {queuedCommands[queuedCommands.length - 1].label}
+          </Text>
+        ) : null}
       </View>
       <View style={styles.body}>
         <Text style={[styles.name, nameStyle, { color: active ? '#0f172a' : '#94a3b8' }]}>
           {device.name}
         </Text>
         <Text
-          style={[styles.secondary, secondaryStyle, { color: active ? '#475569' : '#9ca3af' }]}
+          style={[
+            styles.secondary,
+            secondaryStyle,
+            { color: active ? '#475569' : '#9ca3af' },
+            (hazard || isLockJammed(device) || isAlarmTriggered(device)) && styles.secondaryAlert,
+          ]}
           numberOfLines={1}
         >
           {secondaryText}
@@ -136,8 +195,8 @@ export const DeviceCard = memo(function DeviceCard({
             disabled={pending}
             style={[
               styles.primaryActionButton,
-              { backgroundColor: active ? preset.iconActiveBackground : '#111827' },
-              pending && styles.primaryActionButtonDisabled,
+              { backgroundColor: active ? lightTint ?? preset.iconActiveBackground : '#111827' },
+              (pending || stale) && styles.primaryActionButtonDisabled,
             ]}
           >
             {pending ? (
@@ -160,11 +219,22 @@ export const DeviceCard = memo(function DeviceCard({
 type PrimaryAction = { command: string; value?: number } | null;
 
 function getPrimaryAction(label: string, device: UIDevice): PrimaryAction {
+  const action = getPrimaryActionForLabel(label, device);
+  // Labels are user-assigned, so only offer the action if the entity can actually run it.
+  return action && isCommandAvailable(action.command, device) ? action : null;
+}
+
+function getPrimaryActionForLabel(label: string, device: UIDevice): PrimaryAction {
   switch (label) {
     case 'Light':
       return { command: 'light/toggle' };
+    case 'Fan':
+      return { command: 'fan/toggle' };
     case 'Blind': {
       const normalized = device.state.toLowerCase();
+      if (isCoverMoving(normalized) && isCommandAvailable('blind/stop', device)) {
+        return { command: 'blind/stop' };
+      }
       const isOpen = normalized === 'open' || normalized === 'opening' || normalized === 'on';
       return { command: isOpen ? 'blind/close' : 'blind/open' };
     }
@@ -174,17 +244,40 @@ function getPrimaryAction(label: string, device: UIDevice): PrimaryAction {
       return { command: 'tv/toggle_power' };
     case 'Speaker':
       return { command: 'speaker/toggle_power' };
+    case 'Lock':
+      return { command: device.state.toLowerCase() === 'locked' ? 'lock/unlock' : 'lock/lock' };
+    case 'Controls':
+      if (device.domain === 'input_boolean') return { command: 'helper/toggle' };
+      if (device.domain === 'input_button' || device.domain === 'button') {
+        return { command: 'helper/press' };
+      }
+      return null;
+    case 'Vacuum': {
+      const normalized = device.state.toLowerCase();
+      if (normalized === 'cleaning') {
+        const canPause = isCommandAvailable('vacuum/pause', device);
+        return { command: canPause ? 'vacuum/pause' : 'vacuum/stop' };
+      }
+      return { command: 'vacuum/start' };
+    }
     default:
       return null;
   }
 }
 
+function isCoverMoving(state: string) {
+  return state === 'opening' || state === 'closing';
+}
+
 function primaryActionLabel(label: string, device: UIDevice): string {
   switch (label) {
     case 'Light':
       return 'Toggle light';
+    case 'Fan':
+      return (device.state ?? '').toString().toLowerCase() === 'on' ? 'Turn off fan' : 'Turn on fan';
     case 'Blind': {
       const state = (device.state ?? '').toString().toLowerCase();
+      if (isCoverMoving(state) && isCommandAvailable('blind/stop', device)) return 'Stop blinds';
       const isOpen = state === 'open' || state === 'opening' || state === 'on';
       return isOpen ? 'Close blinds' : 'Open blinds';
     }
@@ -203,12 +296,22 @@ function primaryActionLabel(label: string, device: UIDevice): string {
       const isOn = state === 'on' || state === 'playing';
       return isOn ? 'Turn off speaker' : 'Turn on speaker';
     }
+    case 'Lock':
+      return (device.state ?? '').toString().toLowerCase() === 'locked' ? 'Unlock' : 'Lock';
+    case 'Controls':
+      if (device.domain !== 'input_boolean') return 'Press';
+      return (device.state ?? '').toString().toLowerCase() === 'on' ? 'Turn off' : 'Turn on';
+    case 'Vacuum': {
+      const state = (device.state ?? '').toString().toLowerCase();
+      if (state !== 'cleaning') return 'Start cleaning';
+      return isCommandAvailable('vacuum/pause', device) ? 'Pause' : 'Stop';
+    }
     default:
       return 'Action';
   }
 }
 
-function getSecondaryLine(device: UIDevice): string {
+function getSecondaryLine(device: UIDevice, units: UnitPreferences): string {
   const state = (device.state ?? '').toString();
   const attrs = device.attributes ?? {};
   const label = getPrimaryLabel(device);
@@ -228,21 +331,55 @@ function getSecondaryLine(device: UIDevice): string {
     }
     return state === 'playing' ? 'Playing' : state === 'paused' ? 'Paused' : state;
   }
-  if (label === 'Boiler') {
+  if (label === 'Boiler' || label === 'Thermostat') {
     const target = attrs.temperature ?? attrs.target_temp;
     const current = attrs.current_temperature;
+    const low = attrs.target_temp_low;
+    const high = attrs.target_temp_high;
+    if (state === 'off') {
+      return typeof current === 'number' ? `Off • Now ${current}°` : 'Off';
+    }
     if (typeof target === 'number' && typeof current === 'number') {
       return `Target ${target}° • Now ${current}°`;
     }
     if (typeof target === 'number') return `Target ${target}°`;
+    if (typeof low === 'number' && typeof high === 'number') {
+      return typeof current === 'number'
+        ? `${low}–${high}° • Now ${current}°`
+        : `${low}–${high}°`;
+    }
   }
   if (label === 'Blind') {
-    return state || 'Idle';
+    return getCoverStatus(device);
+  }
+  if (label === 'Fan') {
+    return getFanStatus(device);
+  }
+  if (label === 'Controls') {
+    return getHelperStatus(device);
+  }
+  if (label === 'Lock') {
+    return getLockStatus(device);
+  }
+  if (device.domain === 'alarm_control_panel') {
+    return getAlarmStatus(device);
+  }
+  if (label === 'Vacuum') {
+    const battery = attrs.battery_level;
+    const status = getVacuumStatus(device);
+    return typeof battery === 'number' ? `${status} • ${Math.round(battery)}%` : status;
+  }
+  const binaryStatus = getBinarySensorStatus(device);
+  if (binaryStatus) {
+    return binaryStatus;
   }
   if (label === 'Motion Sensor') {
     const active = ['on', 'motion', 'detected', 'open'].includes(state.toLowerCase());
     return active ? 'Motion detected' : 'No motion';
   }
+  if (device.domain === 'sensor') {
+    return formatSensorState(device, units);
+  }
   return state || 'Unknown';
 }
 
@@ -258,6 +395,7 @@ const styles = StyleSheet.create({
     shadowRadius: 6,
     shadowOffset: { width: 0, height: 3 },
   },
+  cardAlert: { backgroundColor: '#fee2e2', borderColor: '#dc2626', borderWidth: 2 },
   topRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -270,6 +408,9 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#111827',
   },
+  secondaryAlert: { color: '#b91c1c', fontWeight: '700' },
+  pendingText: { fontSize: 10, color: '#6b7280', fontWeight: '600' },
+  queuedText: { fontSize: 10, color: '#b45309', fontWeight: '600' },
   icon: { fontSize: 18, color: '#fff' },
   body: { marginTop: 8 },
   name: { fontSize: 14, fontWeight: '600', color: '#111827' },
@@ -9,15 +9,34 @@ import {
   Pressable,
   ScrollView,
   Image,
-  Alert,
 } from 'react-native';
 import Slider from '@react-native-community/slider';
 import type { UIDevice } from '../models/device';
 import { fetchSensorHistoryForCurrentUser, HistoryPoint } from '../api/monitoringHistory';
 import { getPrimaryLabel } from '../utils/deviceLabels';
-import { handleDeviceCommand } from '../utils/haCommands';
+import {
+  getBinarySensorStatus,
+  isBinarySensorOn,
+  isHazardActive,
+} from '../utils/binarySensors';
+import { CommandHandler, CommandResult, runDeviceCommand } from '../utils/haCommands';
+import { CommandValue, getCommandDefinition } from '../utils/commandRegistry';
+import { showHaCommandError, showHubNotReady, showStaleDataNotice } from '../utils/haErrorAlerts';
+import { getHaErrorKind } from '../api/haErrors';
 import { useSession } from '../store/sessionStore';
+import { useUnitPreferences } from '../store/unitPreferences';
+import { formatMeasurement, formatSensorState, UnitPreferences } from '../utils/unitFormat';
+import { isCommandQueueable, queueCommandForLater, QueuedCommand } from '../store/commandQueue';
 import { getDevicePreset, isDeviceActive } from './deviceVisuals';
+import { AlarmControls } from './AlarmControls';
+import { ClimateControls } from './ClimateControls';
+import { CoverControls } from './CoverControls';
+import { FanControls } from './FanControls';
+import { HelperControls } from './HelperControls';
+import { LightColorControls } from './LightColorControls';
+import { LockControls } from './LockControls';
+import { MediaControls } from './MediaControls';
+import { VacuumControls } from './VacuumControls';
 
 type Props = {
   device: UIDevice | null;
@@ -27,6 +46,12 @@ type Props = {
   relatedDevices?: UIDevice[];
   linkedSensors?: UIDevice[];
   allowSensorHistory?: boolean;
+  onOpenHubSettings?: () => void;
+  onBrowseMedia?: (device: UIDevice) => void;
+  queuedCommands?: QueuedCommand[];
+  onCancelQueued?: (id: string) => void;
+  // The dashboard is on a saved snapshot; commands are offered for the queue instead of sent.
+  stale?: boolean;
 };
 
 export function DeviceDetail({
@@ -37,10 +62,16 @@ export function DeviceDetail({
   relatedDevices,
   linkedSensors,
   allowSensorHistory,
+  onOpenHubSettings,
+  onBrowseMedia,
+  queuedCommands,
+  onCancelQueued,
+  stale,
 }: Props) {
-  const { session, haMode } = useSession();
+  const { session, haMode, activeHa, reportHaRouteFailure } = useSession();
   const [pendingCommand, setPendingCommand] = useState<string | null>(null);
   const [cameraRefreshToken, setCameraRefreshToken] = useState<number>(Date.now());
+  const { units } = useUnitPreferences(session.user?.id);
 
   const label = device ? getPrimaryLabel(device) : null;
   const preset = useMemo(() => getDevicePreset(label), [label]);
@@ -49,17 +80,7 @@ export function DeviceDetail({
   const sensors = linkedSensors ?? [];
   const canShowHistory = Boolean(allowSensorHistory && session.user);
 
-  const connection = session.haConnection;
-
-  const ha = device && connection
-    ? (() => {
-        const rawUrl =
-          haMode === 'cloud' ? connection.cloudUrl ?? '' : connection.baseUrl ?? '';
-        const cleaned = rawUrl.trim().replace(/\/+$/, '');
-        if (!cleaned) return null;
-        return { baseUrl: cleaned, longLivedToken: connection.longLivedToken };
-      })()
-    : null;
+  const ha = device ? activeHa : null;
 
   useEffect(() => {
     if (label === 'Doorbell' || label === 'Home Security') {
@@ -76,33 +97,53 @@ export function DeviceDetail({
         )}&ts=${cameraRefreshToken}`
       : '';
 
-  async function sendCommand(command: string, value?: number) {
-    if (!device) return;
+  // Artwork is usually an HA-relative proxy path that already carries its own token.
+  const buildMediaUrl = (path: string) =>
+    ha && path.startsWith('/') ? `${ha.baseUrl}${path}` : path;
+
+  async function sendCommand(
+    command: string,
+    value?: CommandValue,
+    target: UIDevice | null = device
+  ): Promise<CommandResult> {
+    if (!target) return { ok: false, errorKind: null };
+    const userId = session.user?.id;
+    const queueAction =
+      userId && isCommandQueueable(command)
+        ? () => queueCommandForLater(userId, target, command, value)
+        : undefined;
     if (!ha) {
-      Alert.alert(
-        'Almost there',
-        haMode === 'cloud'
-          ? 'Dinodia Cloud is not ready yet. The homeowner needs to finish setting up remote access for this property.'
-          : 'We cannot find your Dinodia Hub on the home Wi-Fi. It looks like you are away from home—switch to Dinodia Cloud to control your place.'
-      );
-      return;
+      showHubNotReady(haMode, queueAction);
+      return { ok: false, errorKind: 'unreachable' };
     }
-    if (pendingCommand) return;
+    if (stale) {
+      showStaleDataNotice(queueAction);
+      return { ok: false, errorKind: 'unreachable' };
+    }
+    if (pendingCommand) return { ok: false, errorKind: null };
     setPendingCommand(command);
     try {
-      await handleDeviceCommand({ ha, entityId: device.entityId, command, value });
+      await runDeviceCommand({ ha, device: target, command, value });
       if (onCommandComplete) await Promise.resolve(onCommandComplete());
+      return { ok: true };
     } catch (err) {
       if (__DEV__) {
         // eslint-disable-next-line no-console
         console.log('device detail command error', err);
       }
-      Alert.alert(
-        'We could not complete that',
-        err instanceof Error && err.message
-          ? err.message
-          : 'We could not send that to your Dinodia Hub. Please try again.'
-      );
+      const errorKind = getHaErrorKind(err);
+      if (errorKind === 'unreachable') reportHaRouteFailure();
+      showHaCommandError(err, {
+        isAdmin: session.user?.role === 'ADMIN',
+        onOpenHubSettings: onOpenHubSettings
+          ? () => {
+              onClose();
+              onOpenHubSettings();
+            }
+          : undefined,
+        onQueue: queueAction,
+      });
+      return { ok: false, errorKind };
     } finally {
       setPendingCommand(null);
     }
@@ -110,8 +151,7 @@ export function DeviceDetail({
 
   const attrs = device?.attributes ?? {};
   const brightnessPct = getBrightnessPct(attrs);
-  const volumePct = getVolumePct(attrs);
-  const secondary = device ? getSecondaryLine(device) : '';
+  const secondary = device ? getSecondaryLine(device, units) : '';
 
   const headerBg = active ? preset.accent[0] : '#e5e7eb';
 
@@ -136,19 +176,55 @@ export function DeviceDetail({
           </View>
         </View>
         <ScrollView contentContainerStyle={styles.content}>
+          {stale && (
+            <Text style={styles.staleNotice}>
+              This may be out of date. Controls are paused until your Dinodia Hub responds.
+            </Text>
+          )}
+          {queuedCommands && queuedCommands.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionHeading}>Waiting for your Dinodia Hub</Text>
+              {queuedCommands.map((item) => (
+                <View key={item.id} style={styles.queuedRow}>
+                  <View style={styles.sensorTextGroup}>
+                    <Text style={styles.sensorName}>{describeQueuedCommand(item)}</Text>
+                    <Text style={styles.sensorValue}>
+                      Expires {new Date(item.expiresAt).toLocaleTimeString()}
+                    </Text>
+                  </View>
+                  {onCancelQueued && (
+                    <TouchableOpacity onPress={() => onCancelQueued(item.id)}>
+                      <Text style={styles.queuedCancel}>Cancel</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))}
+            </View>
+          )}
           {device &&
             renderControls({
               device,
               label,
               brightnessPct,
-              volumePct,
               pendingCommand,
               onCommand: sendCommand,
               cameraUrlBuilder: buildCameraUrl,
+              mediaUrlBuilder: buildMediaUrl,
+              onBrowseMedia: onBrowseMedia
+                ? () => {
+                    onClose();
+                    onBrowseMedia(device);
+                  }
+                : undefined,
               relatedDevices,
             })}
           {device && sensors.length > 0 && (
-            <LinkedSensorList sensors={sensors} canShowHistory={canShowHistory} userId={session.user?.id} />
+            <LinkedSensorList
+              sensors={sensors}
+              canShowHistory={canShowHistory}
+              userId={session.user?.id}
+              units={units}
+            />
           )}
         </ScrollView>
         <TouchableOpacity style={styles.closeBtn} onPress={onClose}>
@@ -163,20 +239,22 @@ function renderControls(opts: {
   device: UIDevice;
   label: string | null;
   brightnessPct: number | null;
-  volumePct: number | null;
   pendingCommand: string | null;
-  onCommand: (command: string, value?: number) => Promise<void>;
+  onCommand: CommandHandler;
   cameraUrlBuilder: (entityId: string) => string;
+  mediaUrlBuilder: (path: string) => string;
+  onBrowseMedia?: () => void;
   relatedDevices?: UIDevice[];
 }) {
   const {
     device,
     label,
     brightnessPct,
-    volumePct,
     pendingCommand,
     onCommand,
     cameraUrlBuilder,
+    mediaUrlBuilder,
+    onBrowseMedia,
     relatedDevices,
   } = opts;
   const state = (device.state ?? '').toString();
@@ -212,32 +290,22 @@ function renderControls(opts: {
               />
             </View>
           )}
+          <LightColorControls device={device} pendingCommand={pendingCommand} onCommand={onCommand} />
         </View>
       );
-    case 'Blind':
+    case 'Fan':
+      return <FanControls device={device} pendingCommand={pendingCommand} onCommand={onCommand} />;
+    case 'Controls':
       return (
-        <View style={styles.row}>
-          <TouchableOpacity
-            style={[styles.secondaryButton, styles.buttonAlt]}
-            onPress={() => onCommand('blind/open')}
-            disabled={!!pendingCommand}
-          >
-            <Text style={styles.secondaryButtonText}>Open</Text>
-          </TouchableOpacity>
-          <TouchableOpacity
-            style={[styles.secondaryButton, styles.buttonAlt]}
-            onPress={() => onCommand('blind/close')}
-            disabled={!!pendingCommand}
-          >
-            <Text style={styles.secondaryButtonText}>Close</Text>
-          </TouchableOpacity>
-        </View>
+        <HelperControls device={device} pendingCommand={pendingCommand} onCommand={onCommand} />
       );
+    case 'Blind':
+      return <CoverControls device={device} pendingCommand={pendingCommand} onCommand={onCommand} />;
     case 'Spotify':
       return (
         <View style={styles.section}>
           {typeof attrs.entity_picture === 'string' && attrs.entity_picture.length > 0 && (
-            <Image source={{ uri: attrs.entity_picture }} style={styles.artwork} />
+            <Image source={{ uri: mediaUrlBuilder(attrs.entity_picture) }} style={styles.artwork} />
           )}
           <Text style={styles.titleSm}>{String(attrs.media_title ?? 'Track')}</Text>
           <Text style={styles.subtitleSm}>{attrs.media_artist ? String(attrs.media_artist) : ''}</Text>
@@ -271,83 +339,23 @@ function renderControls(opts: {
     case 'TV':
     case 'Speaker':
       return (
-        <View style={styles.section}>
-          <TouchableOpacity
-            style={styles.primaryButton}
-            onPress={() =>
-              onCommand(label === 'TV' ? 'tv/toggle_power' : 'speaker/toggle_power')
-            }
-            disabled={!!pendingCommand}
-          >
-            <Text style={styles.primaryButtonText}>
-              {state === 'on' ? 'Power off' : 'Power on'}
-            </Text>
-          </TouchableOpacity>
-          {volumePct !== null && (
-            <View style={styles.sliderBlock}>
-              <Text style={styles.sliderLabel}>Volume {volumePct}%</Text>
-              <Slider
-                minimumValue={0}
-                maximumValue={100}
-                step={1}
-                value={volumePct}
-                onSlidingComplete={(val) => {
-                  onCommand('media/volume_set', val);
-                }}
-                minimumTrackTintColor="#4f46e5"
-                maximumTrackTintColor="#e5e7eb"
-                thumbTintColor="#4f46e5"
-              />
-            </View>
-          )}
-          <View style={styles.row}>
-            <TouchableOpacity
-              style={styles.secondaryButton}
-              onPress={() => onCommand('media/volume_down')}
-              disabled={!!pendingCommand}
-            >
-              <Text style={styles.secondaryButtonText}>Volume -</Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={styles.secondaryButton}
-              onPress={() => onCommand('media/volume_up')}
-              disabled={!!pendingCommand}
-            >
-              <Text style={styles.secondaryButtonText}>Volume +</Text>
-            </TouchableOpacity>
-          </View>
-        </View>
-      );
-    case 'Boiler': {
-      const target = attrs.temperature ?? attrs.target_temp;
-      const current = attrs.current_temperature;
-      return (
-        <View style={styles.section}>
-          <Text style={styles.titleSm}>
-            Target: {typeof target === 'number' ? target : '—'}°
-          </Text>
-          <Text style={styles.subtitleSm}>
-            Current: {typeof current === 'number' ? current : '—'}°
-          </Text>
-          <View style={styles.row}>
-            <TouchableOpacity
-              style={styles.secondaryButton}
-              onPress={() => onCommand('boiler/temp_down')}
-              disabled={!!pendingCommand}
-            >
-              <Text style={styles.secondaryButtonText}>-</Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={styles.secondaryButton}
-              onPress={() => onCommand('boiler/temp_up')}
-              disabled={!!pendingCommand}
-            >
-              <Text style={styles.secondaryButtonText}>+</Text>
-            </TouchableOpacity>
-          </View>
-        </View>
+        <MediaControls
+          device={device}
+          label={label}
+          pendingCommand={pendingCommand}
+          onCommand={onCommand}
+          groupCandidates={relatedDevices ?? []}
+          mediaUrlBuilder={mediaUrlBuilder}
+          onBrowse={onBrowseMedia}
+        />
       );
-    }
+    case 'Boiler':
+    case 'Thermostat':
+      return <ClimateControls device={device} pendingCommand={pendingCommand} onCommand={onCommand} />;
+    case 'Lock':
+      return <LockControls device={device} pendingCommand={pendingCommand} onCommand={onCommand} />;
+    case 'Vacuum':
+      return <VacuumControls device={device} pendingCommand={pendingCommand} onCommand={onCommand} />;
     case 'Motion Sensor': {
       const activeMotion = ['on', 'motion', 'detected', 'open'].includes(state.toLowerCase());
       return (
@@ -365,6 +373,25 @@ function renderControls(opts: {
         </View>
       );
     }
+    case 'Contact':
+    case 'Safety': {
+      const status = getBinarySensorStatus(device) ?? state;
+      // Hazards go red, open doors and windows amber; all-clear safety sensors stay green.
+      const badgeColor = isHazardActive(device)
+        ? '#dc2626'
+        : isBinarySensorOn(device)
+        ? '#f59e0b'
+        : label === 'Safety'
+        ? '#10b981'
+        : '#d1d5db';
+      return (
+        <View style={styles.section}>
+          <View style={[styles.motionBadge, { backgroundColor: badgeColor }]}>
+            <Text style={styles.motionText}>{status}</Text>
+          </View>
+        </View>
+      );
+    }
     case 'Doorbell': {
       const url = cameraUrlBuilder(device.entityId);
       return (
@@ -376,8 +403,10 @@ function renderControls(opts: {
       );
     }
     case 'Home Security': {
-      const cams = relatedDevices ?? [];
-      if (!cams.length) {
+      const related = relatedDevices ?? [device];
+      const panels = related.filter((d) => d.domain === 'alarm_control_panel');
+      const cams = related.filter((d) => d.domain !== 'alarm_control_panel');
+      if (!cams.length && !panels.length) {
         return (
           <View style={styles.section}>
             <Text style={styles.secondary}>No cameras available.</Text>
@@ -386,6 +415,7 @@ function renderControls(opts: {
       }
       return (
         <View style={styles.section}>
+          <AlarmControls panels={panels} pendingCommand={pendingCommand} onCommand={onCommand} />
           <View style={styles.cameraGrid}>
             {cams.map((cam) => (
               <View key={cam.entityId} style={styles.cameraTile}>
@@ -416,10 +446,12 @@ function LinkedSensorList({
   sensors,
   canShowHistory,
   userId,
+  units,
 }: {
   sensors: UIDevice[];
   canShowHistory: boolean;
   userId?: number | null;
+  units: UnitPreferences;
 }) {
   type SensorHistoryBucket = 'daily' | 'weekly' | 'monthly';
   type SensorHistoryState = {
@@ -514,7 +546,7 @@ function LinkedSensorList({
                   <Text style={styles.sensorName} numberOfLines={1}>
                     {sensor.name}
                   </Text>
-                  <Text style={styles.sensorValue}>{formatSensorValue(sensor)}</Text>
+                  <Text style={styles.sensorValue}>{formatSensorValue(sensor, units)}</Text>
                 </View>
                 {canShowHistory && (
                   <View style={{ marginLeft: 8 }}>
@@ -558,7 +590,7 @@ function LinkedSensorList({
                           <View key={p.bucketStart} style={styles.historyRow}>
                             <Text style={styles.historyLabel}>{p.label}</Text>
                             <Text style={styles.historyValue}>
-                              {Number.isFinite(p.value) ? p.value.toFixed(2) : String(p.value)}{st.unit ? ` ${st.unit}` : ''}
+                              {formatMeasurement(p.value, st.unit, units)}
                             </Text>
                           </View>
                         ))}
@@ -575,18 +607,20 @@ function LinkedSensorList({
   );
 }
 
+function describeQueuedCommand(item: QueuedCommand): string {
+  if (item.value === undefined || Array.isArray(item.value)) return item.label;
+  const param = getCommandDefinition(item.command)?.param;
+  const unit = param && typeof param !== 'function' && param.type === 'number' ? param.unit ?? '' : '';
+  return `${item.label} ${item.value}${unit}`;
+}
+
 function getBrightnessPct(attrs: Record<string, any>): number | null {
   if (typeof attrs.brightness_pct === 'number') return Math.round(attrs.brightness_pct);
   if (typeof attrs.brightness === 'number') return Math.round((attrs.brightness / 255) * 100);
   return null;
 }
 
-function getVolumePct(attrs: Record<string, any>): number | null {
-  if (typeof attrs.volume_level === 'number') return Math.round(attrs.volume_level * 100);
-  return null;
-}
-
-function getSecondaryLine(device: UIDevice): string {
+function getSecondaryLine(device: UIDevice, units: UnitPreferences): string {
   const state = (device.state ?? '').toString();
   const attrs = device.attributes ?? {};
   const label = getPrimaryLabel(device);
@@ -599,20 +633,12 @@ function getSecondaryLine(device: UIDevice): string {
     if (typeof attrs.media_title === 'string') return attrs.media_title;
     return state === 'playing' ? 'Playing' : state === 'paused' ? 'Paused' : state;
   }
-  return state;
+  if (device.domain === 'sensor') return formatSensorState(device, units);
+  return getBinarySensorStatus(device) ?? state;
 }
 
-function formatSensorValue(sensor: UIDevice): string {
-  const state = (sensor.state ?? '').toString();
-  const attrs = sensor.attributes ?? {};
-  const unit =
-    attrs && typeof (attrs as Record<string, unknown>).unit_of_measurement === 'string'
-      ? String((attrs as Record<string, unknown>).unit_of_measurement)
-      : '';
-  if (!state) return '—';
-  if (state.toLowerCase() === 'unavailable') return 'Unavailable';
-  if (unit) return `${state} ${unit}`.trim();
-  return state.charAt(0).toUpperCase() + state.slice(1);
+function formatSensorValue(sensor: UIDevice, units: UnitPreferences): string {
+  return getBinarySensorStatus(sensor) ?? formatSensorState(sensor, units);
 }
 
 const styles = StyleSheet.create({
@@ -675,7 +701,6 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     alignItems: 'center',
   },
-  buttonAlt: { backgroundColor: '#eef2ff' },
   secondaryButtonText: { color: '#111827', fontSize: 14, fontWeight: '600' },
   sliderBlock: { marginTop: 12 },
   sliderLabel: { fontSize: 13, color: '#111827', marginBottom: 6 },
@@ -721,6 +746,27 @@ const styles = StyleSheet.create({
     marginRight: 12,
   },
   sensorTextGroup: { flex: 1 },
+  staleNotice: {
+    fontSize: 13,
+    color: '#92400e',
+    backgroundColor: '#fef3c7',
+    borderRadius: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginBottom: 12,
+  },
+  queuedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    backgroundColor: '#fffbeb',
+    borderWidth: 1,
+    borderColor: '#fde68a',
+    marginBottom: 8,
+  },
+  queuedCancel: { color: '#b45309', fontSize: 13, fontWeight: '700', marginLeft: 8 },
   sensorName: { fontSize: 14, fontWeight: '700', color: '#111827' },
   sensorValue: { fontSize: 12, color: '#4b5563', marginTop: 2 },
   closeBtn: {
@@ -0,0 +1,175 @@
+// src/components/FanControls.tsx
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Switch } from 'react-native';
+import Slider from '@react-native-community/slider';
+import type { UIDevice } from '../models/device';
+import type { CommandHandler } from '../utils/haCommands';
+import { getFanSpeedParam, isCommandAvailable } from '../utils/commandRegistry';
+import { getFanStatus } from './deviceVisuals';
+
+type Props = {
+  device: UIDevice;
+  pendingCommand: string | null;
+  onCommand: CommandHandler;
+};
+
+const DIRECTIONS: { value: string; label: string }[] = [
+  { value: 'forward', label: 'Forward' },
+  { value: 'reverse', label: 'Reverse' },
+];
+
+export function FanControls({ device, pendingCommand, onCommand }: Props) {
+  const attrs = device.attributes ?? {};
+  const isOn = (device.state ?? '').toString().toLowerCase() === 'on';
+  const busy = !!pendingCommand;
+  const speedParam = getFanSpeedParam(attrs);
+  const reportedSpeed =
+    typeof attrs.percentage === 'number' ? Math.round(attrs.percentage) : isOn ? 100 : 0;
+  const [speed, setSpeed] = useState(reportedSpeed);
+
+  useEffect(() => {
+    setSpeed(reportedSpeed);
+  }, [reportedSpeed]);
+
+  const canSpeed = isCommandAvailable('fan/set_percentage', device);
+  const canOscillate = isCommandAvailable('fan/toggle_oscillation', device);
+  const canDirection = isCommandAvailable('fan/set_direction', device);
+  const canPreset = isCommandAvailable('fan/set_preset_mode', device);
+  const presets = Array.isArray(attrs.preset_modes)
+    ? attrs.preset_modes.filter((p): p is string => typeof p === 'string')
+    : [];
+  const currentPreset = typeof attrs.preset_mode === 'string' ? attrs.preset_mode : null;
+  const direction = typeof attrs.direction === 'string' ? attrs.direction : null;
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.statusRow}>
+        <Text style={styles.statusText}>{getFanStatus(device)}</Text>
+        <TouchableOpacity
+          style={[styles.powerButton, isOn && styles.powerButtonOn]}
+          onPress={() => void onCommand('fan/toggle')}
+          disabled={busy}
+        >
+          <Text style={[styles.powerButtonText, isOn && styles.powerButtonTextOn]}>
+            {isOn ? 'Turn off' : 'Turn on'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {canSpeed && (
+        <View style={styles.block}>
+          <Text style={styles.heading}>Speed {Math.round(speed)}%</Text>
+          <Slider
+            minimumValue={0}
+            maximumValue={100}
+            step={speedParam.step}
+            value={speed}
+            disabled={busy}
+            onValueChange={setSpeed}
+            onSlidingComplete={(val) => {
+              void onCommand('fan/set_percentage', val);
+            }}
+            minimumTrackTintColor="#06b6d4"
+            maximumTrackTintColor="#e5e7eb"
+            thumbTintColor="#0891b2"
+          />
+        </View>
+      )}
+
+      {canOscillate && (
+        <View style={[styles.block, styles.toggleRow]}>
+          <Text style={styles.heading}>Oscillate</Text>
+          <Switch
+            value={attrs.oscillating === true}
+            disabled={busy}
+            onValueChange={() => void onCommand('fan/toggle_oscillation')}
+          />
+        </View>
+      )}
+
+      {canDirection && (
+        <View style={styles.block}>
+          <Text style={styles.heading}>Direction</Text>
+          <View style={styles.chipRow}>
+            {DIRECTIONS.map((option) => {
+              const selected = option.value === direction;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  disabled={busy || selected}
+                  onPress={() => void onCommand('fan/set_direction', option.value)}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      )}
+
+      {canPreset && presets.length > 0 && (
+        <View style={styles.block}>
+          <Text style={styles.heading}>Preset</Text>
+          <View style={styles.chipRow}>
+            {presets.map((preset) => {
+              const selected = preset === currentPreset;
+              return (
+                <TouchableOpacity
+                  key={preset}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  disabled={busy || selected}
+                  onPress={() => void onCommand('fan/set_preset_mode', preset)}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                    {preset}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: { marginBottom: 18 },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#fff',
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+  },
+  statusText: { fontSize: 18, fontWeight: '700', color: '#111827' },
+  powerButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    backgroundColor: '#e5e7eb',
+  },
+  powerButtonOn: { backgroundColor: '#0891b2' },
+  powerButtonText: { fontSize: 14, fontWeight: '600', color: '#111827' },
+  powerButtonTextOn: { color: '#fff' },
+  block: { marginTop: 16 },
+  toggleRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
+  heading: { fontSize: 13, fontWeight: '700', color: '#111827', marginBottom: 8 },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: {
+    paddingVertical: 7,
+    paddingHorizontal: 12,
+    borderRadius: 999,
+    backgroundColor: '#f3f4f6',
+  },
+  chipSelected: { backgroundColor: '#111827' },
+  chipText: { fontSize: 13, color: '#111827', fontWeight: '600' },
+  chipTextSelected: { color: '#fff' },
+});
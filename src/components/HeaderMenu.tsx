@@ -1,22 +1,36 @@
 import React from 'react';
 import { Modal, View, Text, TouchableOpacity, StyleSheet, Pressable } from 'react-native';
+import type { HaModePreference } from '../api/haRoute';
 
 type Props = {
   visible: boolean;
   isCloud: boolean;
+  modePreference: HaModePreference;
   onClose: () => void;
-  onToggleMode: () => void;
+  onSelectModePreference: (preference: HaModePreference) => void;
   onLogout: () => void;
+  // Admin-only; hidden when not provided.
+  onOpenAnnouncements?: () => void;
 };
 
 export function HeaderMenu({
   visible,
   isCloud,
+  modePreference,
   onClose,
-  onToggleMode,
+  onSelectModePreference,
   onLogout,
+  onOpenAnnouncements,
 }: Props) {
-  const modeLabel = isCloud ? 'Move to Home Mode' : 'Move to Cloud Mode';
+  const isAuto = modePreference === 'auto';
+  // The manual switch is an override; automatic mode picks Home or Cloud on its own.
+  const modeLabel = isAuto
+    ? isCloud
+      ? 'Force Home Mode'
+      : 'Force Cloud Mode'
+    : isCloud
+    ? 'Move to Home Mode'
+    : 'Move to Cloud Mode';
 
   return (
     <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
@@ -28,13 +42,37 @@ export function HeaderMenu({
           <TouchableOpacity
             style={styles.menuItem}
             onPress={() => {
-            onToggleMode();
+            onSelectModePreference(isCloud ? 'home' : 'cloud');
             onClose();
           }}
           activeOpacity={0.85}
         >
           <Text style={styles.menuItemText}>{modeLabel}</Text>
         </TouchableOpacity>
+        {!isAuto && (
+          <TouchableOpacity
+            style={styles.menuItem}
+            onPress={() => {
+              onSelectModePreference('auto');
+              onClose();
+            }}
+            activeOpacity={0.85}
+          >
+            <Text style={styles.menuItemText}>Choose mode automatically</Text>
+          </TouchableOpacity>
+        )}
+        {onOpenAnnouncements && (
+          <TouchableOpacity
+            style={styles.menuItem}
+            onPress={() => {
+              onOpenAnnouncements();
+              onClose();
+            }}
+            activeOpacity={0.85}
+          >
+            <Text style={styles.menuItemText}>Announcements</Text>
+          </TouchableOpacity>
+        )}
         <View style={styles.divider} />
         <TouchableOpacity
           style={styles.menuItem}
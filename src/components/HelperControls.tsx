@@ -0,0 +1,210 @@
+// src/components/HelperControls.tsx
+import React, { useEffect, useState } from 'react';
+import { Alert, View, Text, StyleSheet, TouchableOpacity, Switch } from 'react-native';
+import Slider from '@react-native-community/slider';
+import type { UIDevice } from '../models/device';
+import type { CommandHandler } from '../utils/haCommands';
+import { getHelperNumberParam } from '../utils/commandRegistry';
+import { getHelperStatus } from './deviceVisuals';
+
+type Props = {
+  device: UIDevice;
+  pendingCommand: string | null;
+  onCommand: CommandHandler;
+};
+
+export function HelperControls({ device, pendingCommand, onCommand }: Props) {
+  const busy = !!pendingCommand;
+  const state = (device.state ?? '').toString();
+
+  switch (device.domain) {
+    case 'input_boolean':
+      return (
+        <View style={[styles.section, styles.card, styles.toggleRow]}>
+          <Text style={styles.value}>{getHelperStatus(device)}</Text>
+          <Switch
+            value={state === 'on'}
+            disabled={busy}
+            onValueChange={() => void onCommand('helper/toggle')}
+          />
+        </View>
+      );
+    case 'input_button':
+    case 'button':
+      return (
+        <View style={styles.section}>
+          <TouchableOpacity
+            style={styles.primaryButton}
+            onPress={() => {
+              // Device buttons restart, reset or reboot things; ask before pressing.
+              if (device.domain !== 'button') {
+                void onCommand('helper/press');
+                return;
+              }
+              Alert.alert(`Press ${device.name}?`, undefined, [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Press', onPress: () => void onCommand('helper/press') },
+              ]);
+            }}
+            disabled={busy}
+          >
+            <Text style={styles.primaryButtonText}>Press</Text>
+          </TouchableOpacity>
+          <Text style={styles.hint}>{getHelperStatus(device)}</Text>
+        </View>
+      );
+    case 'input_number':
+    case 'number':
+      return <NumberHelper device={device} busy={busy} onCommand={onCommand} />;
+    case 'input_select':
+    case 'select': {
+      const options = Array.isArray(device.attributes?.options)
+        ? device.attributes.options.filter((o): o is string => typeof o === 'string')
+        : [];
+      return (
+        <View style={styles.section}>
+          <View style={styles.chipRow}>
+            {options.map((option) => {
+              const selected = option === state;
+              return (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  disabled={busy || selected}
+                  onPress={() => void onCommand('helper/select_option', option)}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                    {option}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      );
+    }
+    default:
+      return (
+        <View style={styles.section}>
+          <Text style={styles.hint}>No interactive controls available.</Text>
+        </View>
+      );
+  }
+}
+
+function NumberHelper({
+  device,
+  busy,
+  onCommand,
+}: {
+  device: UIDevice;
+  busy: boolean;
+  onCommand: CommandHandler;
+}) {
+  const param = getHelperNumberParam(device.attributes ?? {});
+  const step = param.step ?? 1;
+  const suffix = param.unit ? ` ${param.unit}` : '';
+  const reported = Number(device.state);
+  const current = Number.isFinite(reported) ? reported : param.min;
+  const [draft, setDraft] = useState(current);
+
+  useEffect(() => {
+    setDraft(current);
+  }, [current]);
+
+  const decimals = step < 1 ? String(step).split('.')[1]?.length ?? 1 : 0;
+  const format = (value: number) => `${value.toFixed(decimals)}${suffix}`;
+  const nudge = (direction: 1 | -1) => {
+    const next = Math.min(param.max, Math.max(param.min, current + direction * step));
+    if (next !== current) void onCommand('helper/set_value', Number(next.toFixed(4)));
+  };
+
+  return (
+    <View style={[styles.section, styles.card]}>
+      <View style={styles.stepRow}>
+        <TouchableOpacity
+          style={styles.stepButton}
+          onPress={() => nudge(-1)}
+          disabled={busy || current <= param.min}
+        >
+          <Text style={styles.stepButtonText}>−</Text>
+        </TouchableOpacity>
+        <Text style={styles.value}>{format(draft)}</Text>
+        <TouchableOpacity
+          style={styles.stepButton}
+          onPress={() => nudge(1)}
+          disabled={busy || current >= param.max}
+        >
+          <Text style={styles.stepButtonText}>+</Text>
+        </TouchableOpacity>
+      </View>
+      <Slider
+        minimumValue={param.min}
+        maximumValue={param.max}
+        step={step}
+        value={draft}
+        disabled={busy}
+        onValueChange={setDraft}
+        onSlidingComplete={(val) => {
+          void onCommand('helper/set_value', val);
+        }}
+        minimumTrackTintColor="#475569"
+        maximumTrackTintColor="#e5e7eb"
+        thumbTintColor="#475569"
+      />
+      <View style={styles.boundsRow}>
+        <Text style={styles.boundsText}>{format(param.min)}</Text>
+        <Text style={styles.boundsText}>{format(param.max)}</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: { marginBottom: 18 },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+  },
+  toggleRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
+  value: { fontSize: 20, fontWeight: '700', color: '#111827' },
+  hint: { fontSize: 12, color: '#6b7280', marginTop: 8, textAlign: 'center' },
+  primaryButton: {
+    backgroundColor: '#111827',
+    paddingVertical: 12,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  primaryButtonText: { color: '#fff', fontSize: 15, fontWeight: '600' },
+  stepRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  stepButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#e2e8f0',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepButtonText: { fontSize: 20, fontWeight: '700', color: '#334155' },
+  boundsRow: { flexDirection: 'row', justifyContent: 'space-between' },
+  boundsText: { fontSize: 11, color: '#9ca3af' },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: {
+    paddingVertical: 7,
+    paddingHorizontal: 12,
+    borderRadius: 999,
+    backgroundColor: '#f3f4f6',
+  },
+  chipSelected: { backgroundColor: '#111827' },
+  chipText: { fontSize: 13, color: '#111827', fontWeight: '600' },
+  chipTextSelected: { color: '#fff' },
+});
@@ -0,0 +1,207 @@
+// src/components/LightColorControls.tsx
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import Slider from '@react-native-community/slider';
+import type { UIDevice } from '../models/device';
+import type { CommandHandler } from '../utils/haCommands';
+import { getColorTempParam, isCommandAvailable } from '../utils/commandRegistry';
+import { hsToHex } from './deviceVisuals';
+
+type Props = {
+  device: UIDevice;
+  pendingCommand: string | null;
+  onCommand: CommandHandler;
+};
+
+// Quick picks for the most requested colours; [hue, saturation].
+const COLOR_SWATCHES: [number, number][] = [
+  [0, 100],
+  [30, 100],
+  [55, 100],
+  [120, 90],
+  [190, 90],
+  [230, 100],
+  [280, 80],
+  [320, 70],
+];
+
+export function LightColorControls({ device, pendingCommand, onCommand }: Props) {
+  const attrs = device.attributes ?? {};
+  const canColor = isCommandAvailable('light/set_hs_color', device);
+  const canTemp = isCommandAvailable('light/set_color_temp', device);
+  const canEffect = isCommandAvailable('light/set_effect', device);
+
+  const reportedHs = readHs(attrs.hs_color);
+  const [hue, setHue] = useState(reportedHs?.[0] ?? 0);
+  const [saturation, setSaturation] = useState(reportedHs?.[1] ?? 100);
+  const tempParam = getColorTempParam(attrs);
+  const reportedKelvin =
+    typeof attrs.color_temp_kelvin === 'number' ? attrs.color_temp_kelvin : null;
+  const [kelvin, setKelvin] = useState(reportedKelvin ?? Math.round((tempParam.min + tempParam.max) / 2));
+
+  const hueKey = reportedHs ? reportedHs.join(',') : '';
+  useEffect(() => {
+    if (!reportedHs) return;
+    setHue(reportedHs[0]);
+    setSaturation(reportedHs[1]);
+    // hueKey captures the reported pair; the array itself is new every render.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hueKey]);
+
+  useEffect(() => {
+    if (reportedKelvin !== null) setKelvin(reportedKelvin);
+  }, [reportedKelvin]);
+
+  if (!canColor && !canTemp && !canEffect) return null;
+
+  const busy = !!pendingCommand;
+  const effects = Array.isArray(attrs.effect_list)
+    ? attrs.effect_list.filter((e): e is string => typeof e === 'string')
+    : [];
+  const currentEffect = typeof attrs.effect === 'string' ? attrs.effect : null;
+
+  return (
+    <View>
+      {canColor && (
+        <View style={styles.block}>
+          <View style={styles.headingRow}>
+            <Text style={styles.heading}>Color</Text>
+            <View style={[styles.preview, { backgroundColor: hsToHex(hue, saturation) }]} />
+          </View>
+          <View style={styles.swatchRow}>
+            {COLOR_SWATCHES.map(([h, s]) => (
+              <TouchableOpacity
+                key={`${h}-${s}`}
+                style={[styles.swatch, { backgroundColor: hsToHex(h, s) }]}
+                disabled={busy}
+                onPress={() => {
+                  setHue(h);
+                  setSaturation(s);
+                  void onCommand('light/set_hs_color', [h, s]);
+                }}
+              />
+            ))}
+          </View>
+          <Text style={styles.sliderLabel}>Hue</Text>
+          <Slider
+            minimumValue={0}
+            maximumValue={360}
+            step={1}
+            value={hue}
+            disabled={busy}
+            onValueChange={setHue}
+            onSlidingComplete={(val) => {
+              void onCommand('light/set_hs_color', [val, saturation]);
+            }}
+            minimumTrackTintColor={hsToHex(hue, 100)}
+            maximumTrackTintColor="#e5e7eb"
+            thumbTintColor={hsToHex(hue, 100)}
+          />
+          <Text style={styles.sliderLabel}>Saturation {Math.round(saturation)}%</Text>
+          <Slider
+            minimumValue={0}
+            maximumValue={100}
+            step={1}
+            value={saturation}
+            disabled={busy}
+            onValueChange={setSaturation}
+            onSlidingComplete={(val) => {
+              void onCommand('light/set_hs_color', [hue, val]);
+            }}
+            minimumTrackTintColor={hsToHex(hue, saturation)}
+            maximumTrackTintColor="#e5e7eb"
+            thumbTintColor={hsToHex(hue, saturation)}
+          />
+        </View>
+      )}
+      {canTemp && (
+        <View style={styles.block}>
+          <Text style={styles.heading}>White temperature {kelvin}K</Text>
+          <Slider
+            minimumValue={tempParam.min}
+            maximumValue={tempParam.max}
+            step={tempParam.step}
+            value={kelvin}
+            disabled={busy}
+            onValueChange={setKelvin}
+            onSlidingComplete={(val) => {
+              void onCommand('light/set_color_temp', val);
+            }}
+            minimumTrackTintColor="#fb923c"
+            maximumTrackTintColor="#bfdbfe"
+            thumbTintColor="#f59e0b"
+          />
+          <View style={styles.boundsRow}>
+            <Text style={styles.boundsText}>Warm</Text>
+            <Text style={styles.boundsText}>Cool</Text>
+          </View>
+        </View>
+      )}
+      {canEffect && effects.length > 0 && (
+        <View style={styles.block}>
+          <Text style={styles.heading}>Effect</Text>
+          <View style={styles.chipRow}>
+            {effects.map((effect) => {
+              const selected = effect === currentEffect;
+              return (
+                <TouchableOpacity
+                  key={effect}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  disabled={busy || selected}
+                  onPress={() => {
+                    void onCommand('light/set_effect', effect);
+                  }}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                    {effect}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+function readHs(value: unknown): [number, number] | null {
+  if (!Array.isArray(value) || value.length < 2) return null;
+  const [h, s] = value;
+  return typeof h === 'number' && typeof s === 'number' ? [h, s] : null;
+}
+
+const styles = StyleSheet.create({
+  block: { marginTop: 16 },
+  headingRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
+  heading: { fontSize: 13, fontWeight: '700', color: '#111827', marginBottom: 8 },
+  preview: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: 'rgba(0,0,0,0.1)',
+    marginBottom: 8,
+  },
+  swatchRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 10, marginBottom: 10 },
+  swatch: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(0,0,0,0.08)',
+  },
+  sliderLabel: { fontSize: 13, color: '#111827', marginTop: 6, marginBottom: 4 },
+  boundsRow: { flexDirection: 'row', justifyContent: 'space-between' },
+  boundsText: { fontSize: 11, color: '#9ca3af' },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: {
+    paddingVertical: 7,
+    paddingHorizontal: 12,
+    borderRadius: 999,
+    backgroundColor: '#f3f4f6',
+  },
+  chipSelected: { backgroundColor: '#111827' },
+  chipText: { fontSize: 13, color: '#111827', fontWeight: '600' },
+  chipTextSelected: { color: '#fff' },
+});
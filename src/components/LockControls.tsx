@@ -0,0 +1,144 @@
+// src/components/LockControls.tsx
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import type { UIDevice } from '../models/device';
+import type { CommandHandler } from '../utils/haCommands';
+import { lockNeedsCode } from '../utils/commandRegistry';
+import { getLockStatus, isLockJammed } from './deviceVisuals';
+
+type Props = {
+  device: UIDevice;
+  pendingCommand: string | null;
+  onCommand: CommandHandler;
+};
+
+export function LockControls({ device, pendingCommand, onCommand }: Props) {
+  const attrs = device.attributes ?? {};
+  const state = (device.state ?? '').toString().toLowerCase();
+  const needsCode = lockNeedsCode(attrs);
+  const jammed = isLockJammed(device);
+  const busy = !!pendingCommand;
+  const [confirming, setConfirming] = useState(false);
+  const [code, setCode] = useState('');
+
+  // Drop a half-finished unlock if the lock changes under us (e.g. someone used the key).
+  useEffect(() => {
+    setConfirming(false);
+    setCode('');
+  }, [device.entityId, state]);
+
+  const sendWithCode = (command: string) => onCommand(command, needsCode ? code : undefined);
+
+  return (
+    <View style={styles.section}>
+      <View style={[styles.statusCard, jammed && styles.statusCardJammed]}>
+        <Text style={[styles.statusText, jammed && styles.statusTextJammed]}>
+          {getLockStatus(device)}
+        </Text>
+        {jammed && (
+          <Text style={styles.jammedHint}>
+            The bolt could not finish moving. Check the door is closed, then try again.
+          </Text>
+        )}
+      </View>
+
+      {needsCode && (
+        <TextInput
+          style={styles.codeInput}
+          value={code}
+          onChangeText={setCode}
+          placeholder="Lock code"
+          keyboardType="number-pad"
+          secureTextEntry
+          autoComplete="off"
+        />
+      )}
+
+      {confirming ? (
+        <View style={styles.confirmBlock}>
+          <Text style={styles.confirmText}>Unlock {device.name}?</Text>
+          <View style={styles.row}>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => setConfirming(false)}
+              disabled={busy}
+            >
+              <Text style={styles.secondaryButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.secondaryButton, styles.dangerButton]}
+              onPress={() => {
+                setConfirming(false);
+                void sendWithCode('lock/unlock');
+              }}
+              disabled={busy || (needsCode && !code)}
+            >
+              <Text style={styles.dangerButtonText}>Unlock</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <View style={styles.row}>
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => void sendWithCode('lock/lock')}
+            disabled={busy || state === 'locked' || (needsCode && !code)}
+          >
+            <Text style={styles.secondaryButtonText}>Lock</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => setConfirming(true)}
+            disabled={busy || state === 'unlocked' || (needsCode && !code)}
+          >
+            <Text style={styles.secondaryButtonText}>Unlock…</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: { marginBottom: 18 },
+  statusCard: {
+    backgroundColor: '#fff',
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    marginBottom: 12,
+  },
+  statusCardJammed: { backgroundColor: '#fef2f2', borderColor: '#fca5a5' },
+  statusText: { fontSize: 18, fontWeight: '700', color: '#111827' },
+  statusTextJammed: { color: '#b91c1c' },
+  jammedHint: { fontSize: 12, color: '#b91c1c', marginTop: 4 },
+  codeInput: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    marginBottom: 12,
+  },
+  confirmBlock: {
+    backgroundColor: '#fff7ed',
+    borderRadius: 14,
+    padding: 12,
+  },
+  confirmText: { fontSize: 14, fontWeight: '600', color: '#9a3412', marginBottom: 10 },
+  row: { flexDirection: 'row', columnGap: 10 },
+  secondaryButton: {
+    flex: 1,
+    backgroundColor: '#e5e7eb',
+    paddingVertical: 10,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  secondaryButtonText: { color: '#111827', fontSize: 14, fontWeight: '600' },
+  dangerButton: { backgroundColor: '#dc2626' },
+  dangerButtonText: { color: '#fff', fontSize: 14, fontWeight: '700' },
+});
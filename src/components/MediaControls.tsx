@@ -0,0 +1,428 @@
+// src/components/MediaControls.tsx
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Image } from 'react-native';
+import Slider from '@react-native-community/slider';
+import type { UIDevice } from '../models/device';
+import type { CommandHandler } from '../utils/haCommands';
+import { hasFeature, isCommandAvailable, MediaFeature, REPEAT_MODES } from '../utils/commandRegistry';
+
+type Props = {
+  device: UIDevice;
+  label: 'TV' | 'Speaker';
+  pendingCommand: string | null;
+  onCommand: CommandHandler;
+  // Other media players this one could be grouped with.
+  groupCandidates: UIDevice[];
+  // Resolves HA-relative paths such as `/api/media_player_proxy/...`.
+  mediaUrlBuilder: (path: string) => string;
+  onBrowse?: () => void;
+};
+
+const REPEAT_LABELS: Record<string, string> = {
+  off: 'Repeat off',
+  all: 'Repeat all',
+  one: 'Repeat one',
+};
+
+export function MediaControls({
+  device,
+  label,
+  pendingCommand,
+  onCommand,
+  groupCandidates,
+  mediaUrlBuilder,
+  onBrowse,
+}: Props) {
+  const attrs = device.attributes ?? {};
+  const state = (device.state ?? '').toString().toLowerCase();
+  const isOff = state === 'off' || state === 'standby' || state === 'unavailable';
+  const playing = state === 'playing';
+  const busy = !!pendingCommand;
+
+  const picture =
+    typeof attrs.entity_picture === 'string' && attrs.entity_picture.length > 0
+      ? mediaUrlBuilder(attrs.entity_picture)
+      : null;
+  const title = typeof attrs.media_title === 'string' ? attrs.media_title : null;
+  const subtitle =
+    typeof attrs.media_artist === 'string'
+      ? attrs.media_artist
+      : typeof attrs.app_name === 'string'
+      ? attrs.app_name
+      : null;
+
+  const volumePct =
+    typeof attrs.volume_level === 'number' ? Math.round(attrs.volume_level * 100) : null;
+  const muted = attrs.is_volume_muted === true;
+  const repeat = typeof attrs.repeat === 'string' ? attrs.repeat : 'off';
+  const members = readStringList(attrs.group_members);
+
+  const canSeek = isCommandAvailable('media/seek', device);
+  const canMute = isCommandAvailable('media/toggle_mute', device);
+  const canShuffle = isCommandAvailable('media/toggle_shuffle', device);
+  const canRepeat = isCommandAvailable('media/set_repeat', device);
+  const canSource = isCommandAvailable('media/select_source', device);
+  const canSoundMode = isCommandAvailable('media/select_sound_mode', device);
+  const canGroup = isCommandAvailable('media/join', device);
+  const canBrowse = !!onBrowse && hasFeature(attrs, MediaFeature.BROWSE_MEDIA);
+  const partners = groupCandidates.filter(
+    (d) => d.entityId !== device.entityId && isCommandAvailable('media/join', d)
+  );
+
+  const repeatIndex = (REPEAT_MODES as readonly string[]).indexOf(repeat);
+  const nextRepeat = REPEAT_MODES[(repeatIndex + 1) % REPEAT_MODES.length];
+
+  return (
+    <View style={styles.section}>
+      {picture && <Image source={{ uri: picture }} style={styles.artwork} />}
+      {title && <Text style={styles.title}>{title}</Text>}
+      {subtitle && <Text style={styles.subtitle}>{subtitle}</Text>}
+
+      <TouchableOpacity
+        style={styles.primaryButton}
+        onPress={() => void onCommand(label === 'TV' ? 'tv/toggle_power' : 'speaker/toggle_power')}
+        disabled={busy}
+      >
+        <Text style={styles.primaryButtonText}>{isOff ? 'Power on' : 'Power off'}</Text>
+      </TouchableOpacity>
+
+      {canBrowse && (
+        <TouchableOpacity style={styles.browseButton} onPress={onBrowse}>
+          <Text style={styles.browseButtonText}>Browse media</Text>
+        </TouchableOpacity>
+      )}
+
+      {!isOff && (
+        <>
+          <View style={styles.row}>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => void onCommand('media/previous')}
+              disabled={busy}
+            >
+              <Text style={styles.secondaryButtonText}>Prev</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => void onCommand('media/play_pause')}
+              disabled={busy}
+            >
+              <Text style={styles.secondaryButtonText}>{playing ? 'Pause' : 'Play'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => void onCommand('media/next')}
+              disabled={busy}
+            >
+              <Text style={styles.secondaryButtonText}>Next</Text>
+            </TouchableOpacity>
+          </View>
+
+          {canSeek && (
+            <SeekBar
+              attrs={attrs}
+              playing={playing}
+              disabled={busy}
+              onSeek={(position) => void onCommand('media/seek', position)}
+            />
+          )}
+
+          {(canShuffle || canRepeat) && (
+            <View style={[styles.block, styles.chipRow]}>
+              {canShuffle && (
+                <Chip
+                  text="Shuffle"
+                  selected={attrs.shuffle === true}
+                  disabled={busy}
+                  onPress={() => void onCommand('media/toggle_shuffle')}
+                />
+              )}
+              {canRepeat && (
+                <Chip
+                  text={REPEAT_LABELS[repeat] ?? 'Repeat'}
+                  selected={repeat !== 'off'}
+                  disabled={busy}
+                  onPress={() => void onCommand('media/set_repeat', nextRepeat)}
+                />
+              )}
+            </View>
+          )}
+        </>
+      )}
+
+      {volumePct !== null && (
+        <View style={styles.block}>
+          <View style={styles.headingRow}>
+            <Text style={styles.heading}>Volume {muted ? 'muted' : `${volumePct}%`}</Text>
+            {canMute && (
+              <Chip
+                text={muted ? 'Unmute' : 'Mute'}
+                selected={muted}
+                disabled={busy}
+                onPress={() => void onCommand('media/toggle_mute')}
+              />
+            )}
+          </View>
+          <Slider
+            minimumValue={0}
+            maximumValue={100}
+            step={1}
+            value={volumePct}
+            onSlidingComplete={(val) => {
+              void onCommand('media/volume_set', val);
+            }}
+            minimumTrackTintColor="#4f46e5"
+            maximumTrackTintColor="#e5e7eb"
+            thumbTintColor="#4f46e5"
+          />
+        </View>
+      )}
+      <View style={styles.row}>
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={() => void onCommand('media/volume_down')}
+          disabled={busy}
+        >
+          <Text style={styles.secondaryButtonText}>Volume -</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={() => void onCommand('media/volume_up')}
+          disabled={busy}
+        >
+          <Text style={styles.secondaryButtonText}>Volume +</Text>
+        </TouchableOpacity>
+      </View>
+
+      {canSource && (
+        <OptionList
+          title={label === 'TV' ? 'Input' : 'Source'}
+          options={readStringList(attrs.source_list)}
+          selected={typeof attrs.source === 'string' ? attrs.source : null}
+          disabled={busy}
+          onSelect={(source) => void onCommand('media/select_source', source)}
+        />
+      )}
+      {canSoundMode && (
+        <OptionList
+          title="Sound mode"
+          options={readStringList(attrs.sound_mode_list)}
+          selected={typeof attrs.sound_mode === 'string' ? attrs.sound_mode : null}
+          disabled={busy}
+          onSelect={(mode) => void onCommand('media/select_sound_mode', mode)}
+        />
+      )}
+
+      {canGroup && partners.length > 0 && (
+        <View style={styles.block}>
+          <Text style={styles.heading}>Play in other rooms</Text>
+          <View style={styles.chipRow}>
+            {partners.map((partner) => {
+              const joined = members.includes(partner.entityId);
+              return (
+                <Chip
+                  key={partner.entityId}
+                  text={partner.name}
+                  selected={joined}
+                  disabled={busy}
+                  onPress={() =>
+                    void (joined
+                      ? onCommand('media/unjoin', undefined, partner)
+                      : onCommand('media/join', partner.entityId))
+                  }
+                />
+              );
+            })}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+function SeekBar({
+  attrs,
+  playing,
+  disabled,
+  onSeek,
+}: {
+  attrs: Record<string, unknown>;
+  playing: boolean;
+  disabled: boolean;
+  onSeek: (position: number) => void;
+}) {
+  const duration = typeof attrs.media_duration === 'number' ? attrs.media_duration : 0;
+  const [now, setNow] = useState(Date.now());
+  const [dragging, setDragging] = useState<number | null>(null);
+
+  // HA only reports the position when playback changes; extrapolate between updates.
+  useEffect(() => {
+    if (!playing) return;
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, [playing]);
+
+  const position = dragging ?? estimatePosition(attrs, playing, now, duration);
+
+  return (
+    <View style={styles.block}>
+      <Slider
+        minimumValue={0}
+        maximumValue={duration}
+        step={1}
+        value={position}
+        disabled={disabled}
+        onValueChange={setDragging}
+        onSlidingComplete={(val) => {
+          setDragging(null);
+          onSeek(val);
+        }}
+        minimumTrackTintColor="#4f46e5"
+        maximumTrackTintColor="#e5e7eb"
+        thumbTintColor="#4f46e5"
+      />
+      <View style={styles.boundsRow}>
+        <Text style={styles.boundsText}>{formatDuration(position)}</Text>
+        <Text style={styles.boundsText}>{formatDuration(duration)}</Text>
+      </View>
+    </View>
+  );
+}
+
+function Chip({
+  text,
+  selected,
+  disabled,
+  onPress,
+}: {
+  text: string;
+  selected: boolean;
+  disabled: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <TouchableOpacity
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+      disabled={disabled}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{text}</Text>
+    </TouchableOpacity>
+  );
+}
+
+function OptionList({
+  title,
+  options,
+  selected,
+  disabled,
+  onSelect,
+}: {
+  title: string;
+  options: string[];
+  selected: string | null;
+  disabled: boolean;
+  onSelect: (option: string) => void;
+}) {
+  return (
+    <View style={styles.block}>
+      <Text style={styles.heading}>{title}</Text>
+      <View style={styles.chipRow}>
+        {options.map((option) => (
+          <Chip
+            key={option}
+            text={option}
+            selected={option === selected}
+            disabled={disabled || option === selected}
+            onPress={() => onSelect(option)}
+          />
+        ))}
+      </View>
+    </View>
+  );
+}
+
+function estimatePosition(
+  attrs: Record<string, unknown>,
+  playing: boolean,
+  now: number,
+  duration: number
+): number {
+  const reported = typeof attrs.media_position === 'number' ? attrs.media_position : 0;
+  const updatedAt =
+    typeof attrs.media_position_updated_at === 'string'
+      ? Date.parse(attrs.media_position_updated_at)
+      : NaN;
+  const elapsed = playing && Number.isFinite(updatedAt) ? (now - updatedAt) / 1000 : 0;
+  return Math.min(duration, Math.max(0, reported + elapsed));
+}
+
+function formatDuration(totalSeconds: number): string {
+  const seconds = Math.floor(totalSeconds % 60);
+  const minutes = Math.floor(totalSeconds / 60) % 60;
+  const hours = Math.floor(totalSeconds / 3600);
+  const ss = seconds.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${ss}` : `${minutes}:${ss}`;
+}
+
+function readStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+const styles = StyleSheet.create({
+  section: { marginBottom: 18 },
+  artwork: {
+    width: '100%',
+    height: 170,
+    borderRadius: 18,
+    marginBottom: 12,
+    backgroundColor: '#e5e7eb',
+  },
+  title: { fontSize: 18, fontWeight: '700', color: '#111827' },
+  subtitle: { fontSize: 13, color: '#4b5563', marginTop: 4 },
+  primaryButton: {
+    marginTop: 12,
+    backgroundColor: '#111827',
+    paddingVertical: 12,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  primaryButtonText: { color: '#fff', fontSize: 15, fontWeight: '600' },
+  browseButton: {
+    marginTop: 10,
+    backgroundColor: '#eef2ff',
+    paddingVertical: 10,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  browseButtonText: { color: '#4f46e5', fontSize: 14, fontWeight: '700' },
+  row: { flexDirection: 'row', columnGap: 10, marginTop: 12 },
+  secondaryButton: {
+    flex: 1,
+    backgroundColor: '#e5e7eb',
+    paddingVertical: 10,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  secondaryButtonText: { color: '#111827', fontSize: 14, fontWeight: '600' },
+  block: { marginTop: 16 },
+  headingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  heading: { fontSize: 13, fontWeight: '700', color: '#111827', marginBottom: 8 },
+  boundsRow: { flexDirection: 'row', justifyContent: 'space-between' },
+  boundsText: { fontSize: 11, color: '#9ca3af' },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: {
+    paddingVertical: 7,
+    paddingHorizontal: 12,
+    borderRadius: 999,
+    backgroundColor: '#f3f4f6',
+  },
+  chipSelected: { backgroundColor: '#111827' },
+  chipText: { fontSize: 13, color: '#111827', fontWeight: '600' },
+  chipTextSelected: { color: '#fff' },
+});
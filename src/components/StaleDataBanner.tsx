@@ -0,0 +1,44 @@
+// src/components/StaleDataBanner.tsx
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { formatRelativeTime } from '../utils/unitFormat';
+
+// The age only needs to read right to the minute.
+const TICK_MS = 30000;
+
+type Props = {
+  updatedAt: number | null;
+};
+
+export function StaleDataBanner({ updatedAt }: Props) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(id);
+  }, []);
+
+  const age = updatedAt ? formatRelativeTime(updatedAt, now) : null;
+  return (
+    <View style={styles.banner}>
+      <Text style={styles.title}>
+        {age && age !== 'just now' ? `Showing data from ${age}` : 'Showing saved data'}
+      </Text>
+      <Text style={styles.body}>Controls are paused until your Dinodia Hub responds.</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    backgroundColor: '#fef3c7',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#fcd34d',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginBottom: 8,
+  },
+  title: { fontSize: 13, fontWeight: '700', color: '#92400e' },
+  body: { fontSize: 12, color: '#92400e', marginTop: 2 },
+});
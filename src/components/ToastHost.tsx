@@ -0,0 +1,75 @@
+// src/components/ToastHost.tsx
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { subscribeToToasts, Toast } from '../store/toastStore';
+
+const MAX_VISIBLE = 3;
+
+const TONE_COLORS: Record<Toast['tone'], string> = {
+  info: '#111827',
+  success: '#047857',
+  error: '#b91c1c',
+};
+
+export function ToastHost() {
+  const insets = useSafeAreaInsets();
+  const [toasts, setToasts] = useState<Toast[]>([]);
+
+  useEffect(() => {
+    const timers = new Map<number, ReturnType<typeof setTimeout>>();
+    const unsubscribe = subscribeToToasts((toast) => {
+      setToasts((prev) => [...prev, toast].slice(-MAX_VISIBLE));
+      timers.set(
+        toast.id,
+        setTimeout(() => {
+          timers.delete(toast.id);
+          setToasts((prev) => prev.filter((t) => t.id !== toast.id));
+        }, toast.durationMs)
+      );
+    });
+    return () => {
+      unsubscribe();
+      timers.forEach((timer) => clearTimeout(timer));
+    };
+  }, []);
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <View pointerEvents="box-none" style={[styles.container, { bottom: insets.bottom + 16 }]}>
+      {toasts.map((toast) => (
+        <TouchableOpacity
+          key={toast.id}
+          activeOpacity={0.9}
+          onPress={() => setToasts((prev) => prev.filter((t) => t.id !== toast.id))}
+          style={[styles.toast, { backgroundColor: TONE_COLORS[toast.tone] }]}
+        >
+          <Text style={styles.toastText}>{toast.message}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    alignItems: 'center',
+  },
+  toast: {
+    marginTop: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 14,
+    maxWidth: 480,
+    shadowColor: '#000',
+    shadowOpacity: 0.15,
+    shadowRadius: 10,
+    shadowOffset: { width: 0, height: 4 },
+    elevation: 4,
+  },
+  toastText: { color: '#fff', fontSize: 14, fontWeight: '600' },
+});
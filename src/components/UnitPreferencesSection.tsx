@@ -0,0 +1,75 @@
+// src/components/UnitPreferencesSection.tsx
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useUnitPreferences } from '../store/unitPreferences';
+import { UNIT_OPTIONS, UnitKind } from '../utils/unitFormat';
+
+const UNIT_KIND_LABELS: Record<UnitKind, string> = {
+  temperature: 'Temperature',
+  energy: 'Energy',
+  power: 'Power',
+  pressure: 'Pressure',
+};
+
+type Props = {
+  userId: number;
+};
+
+export function UnitPreferencesSection({ userId }: Props) {
+  const { units, setUnit } = useUnitPreferences(userId);
+
+  return (
+    <View>
+      {(Object.keys(UNIT_OPTIONS) as UnitKind[]).map((kind) => {
+        const selected = units[kind];
+        return (
+          <View key={kind} style={styles.row}>
+            <Text style={styles.rowLabel}>{UNIT_KIND_LABELS[kind]}</Text>
+            <View style={styles.chipRow}>
+              <UnitChip text="As reported" selected={!selected} onPress={() => setUnit(kind, undefined)} />
+              {UNIT_OPTIONS[kind].map((unit) => (
+                <UnitChip
+                  key={unit}
+                  text={unit}
+                  selected={selected === unit}
+                  onPress={() => setUnit(kind, unit)}
+                />
+              ))}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+function UnitChip({
+  text,
+  selected,
+  onPress,
+}: {
+  text: string;
+  selected: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <TouchableOpacity style={[styles.chip, selected && styles.chipSelected]} onPress={onPress}>
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{text}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: { marginBottom: 12 },
+  rowLabel: { fontSize: 13, color: '#4b5563', marginBottom: 6 },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 999,
+    backgroundColor: '#e5e7eb',
+  },
+  chipSelected: { backgroundColor: '#111827' },
+  chipText: { fontSize: 13, color: '#111827', fontWeight: '600' },
+  chipTextSelected: { color: '#fff' },
+});
@@ -0,0 +1,160 @@
+// src/components/VacuumControls.tsx
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import type { UIDevice } from '../models/device';
+import type { CommandHandler } from '../utils/haCommands';
+import {
+  getVacuumRooms,
+  hasFeature,
+  isCommandAvailable,
+  VacuumFeature,
+} from '../utils/commandRegistry';
+import { getVacuumStatus } from './deviceVisuals';
+
+type Props = {
+  device: UIDevice;
+  pendingCommand: string | null;
+  onCommand: CommandHandler;
+};
+
+const ACTIONS: { command: string; label: string }[] = [
+  { command: 'vacuum/start', label: 'Start' },
+  { command: 'vacuum/pause', label: 'Pause' },
+  { command: 'vacuum/stop', label: 'Stop' },
+  { command: 'vacuum/return_to_base', label: 'Dock' },
+  { command: 'vacuum/locate', label: 'Locate' },
+  { command: 'vacuum/clean_spot', label: 'Spot' },
+];
+
+export function VacuumControls({ device, pendingCommand, onCommand }: Props) {
+  const attrs = device.attributes ?? {};
+  const busy = !!pendingCommand;
+  const battery =
+    hasFeature(attrs, VacuumFeature.BATTERY) && typeof attrs.battery_level === 'number'
+      ? Math.round(attrs.battery_level)
+      : null;
+  const actions = ACTIONS.filter((action) => isCommandAvailable(action.command, device));
+  const fanSpeeds = isCommandAvailable('vacuum/set_fan_speed', device)
+    ? (attrs.fan_speed_list as unknown[]).filter((v): v is string => typeof v === 'string')
+    : [];
+  const currentFan = typeof attrs.fan_speed === 'string' ? attrs.fan_speed : null;
+  const rooms = isCommandAvailable('vacuum/clean_room', device) ? getVacuumRooms(attrs) : [];
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.statusCard}>
+        <View>
+          <Text style={styles.statusLabel}>Status</Text>
+          <Text style={styles.statusValue}>{getVacuumStatus(device)}</Text>
+        </View>
+        {battery !== null && (
+          <View style={styles.batteryGroup}>
+            <Text style={styles.statusLabel}>Battery</Text>
+            <Text style={[styles.statusValue, battery <= 20 && styles.batteryLow]}>
+              {battery}%
+            </Text>
+          </View>
+        )}
+      </View>
+
+      {actions.length > 0 ? (
+        <View style={styles.actionGrid}>
+          {actions.map((action) => (
+            <TouchableOpacity
+              key={action.command}
+              style={styles.actionButton}
+              onPress={() => onCommand(action.command)}
+              disabled={busy}
+            >
+              <Text style={styles.actionText}>
+                {pendingCommand === action.command ? '…' : action.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      ) : (
+        <Text style={styles.hint}>This vacuum doesn't accept commands from Dinodia.</Text>
+      )}
+
+      {fanSpeeds.length > 0 && (
+        <View style={styles.block}>
+          <Text style={styles.heading}>Suction</Text>
+          <View style={styles.chipRow}>
+            {fanSpeeds.map((speed) => {
+              const selected = speed === currentFan;
+              return (
+                <TouchableOpacity
+                  key={speed}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => onCommand('vacuum/set_fan_speed', speed)}
+                  disabled={busy || selected}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{speed}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      )}
+
+      {rooms.length > 0 && (
+        <View style={styles.block}>
+          <Text style={styles.heading}>Clean a room</Text>
+          <View style={styles.chipRow}>
+            {rooms.map((room) => (
+              <TouchableOpacity
+                key={room.id}
+                style={styles.chip}
+                onPress={() => onCommand('vacuum/clean_room', room.id)}
+                disabled={busy}
+              >
+                <Text style={styles.chipText}>{room.name}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: { marginBottom: 18 },
+  statusCard: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    backgroundColor: '#fff',
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    marginBottom: 12,
+  },
+  statusLabel: { fontSize: 11, color: '#6b7280', textTransform: 'uppercase', letterSpacing: 1 },
+  statusValue: { fontSize: 18, fontWeight: '700', color: '#111827', marginTop: 2 },
+  batteryGroup: { alignItems: 'flex-end' },
+  batteryLow: { color: '#dc2626' },
+  hint: { fontSize: 12, color: '#6b7280' },
+  actionGrid: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  actionButton: {
+    width: '31%',
+    backgroundColor: '#e5e7eb',
+    paddingVertical: 10,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  actionText: { color: '#111827', fontSize: 14, fontWeight: '600' },
+  block: { marginTop: 16 },
+  heading: { fontSize: 13, fontWeight: '700', color: '#111827', marginBottom: 8 },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: {
+    paddingVertical: 7,
+    paddingHorizontal: 12,
+    borderRadius: 999,
+    backgroundColor: '#f3f4f6',
+  },
+  chipSelected: { backgroundColor: '#111827' },
+  chipText: { fontSize: 13, color: '#111827', fontWeight: '600' },
+  chipTextSelected: { color: '#fff' },
+});
@@ -36,6 +36,14 @@ const PRESETS: Record<string, DeviceVisualPreset> = {
     iconInactiveBackground: '#bae6fd',
     accent: ['#06b6d4', '#22d3ee'],
   },
+  Fan: {
+    gradient: ['#e0f2fe', '#67e8f9'],
+    inactiveBackground: '#f0fdff',
+    icon: '🌀',
+    iconActiveBackground: '#0891b2',
+    iconInactiveBackground: '#a5f3fc',
+    accent: ['#06b6d4', '#67e8f9'],
+  },
   'Motion Sensor': {
     gradient: ['#d1fae5', '#6ee7b7'],
     inactiveBackground: '#ecfdf3',
@@ -44,6 +52,22 @@ const PRESETS: Record<string, DeviceVisualPreset> = {
     iconInactiveBackground: '#bbf7d0',
     accent: ['#10b981', '#34d399'],
   },
+  Contact: {
+    gradient: ['#fef9c3', '#fde047'],
+    inactiveBackground: '#f8fafc',
+    icon: '🚪',
+    iconActiveBackground: '#ca8a04',
+    iconInactiveBackground: '#e2e8f0',
+    accent: ['#eab308', '#fde047'],
+  },
+  Safety: {
+    gradient: ['#fee2e2', '#f87171'],
+    inactiveBackground: '#f0fdf4',
+    icon: '🚨',
+    iconActiveBackground: '#dc2626',
+    iconInactiveBackground: '#bbf7d0',
+    accent: ['#dc2626', '#f87171'],
+  },
   Spotify: {
     gradient: ['#d1fae5', '#34d399'],
     inactiveBackground: '#e8fff3',
@@ -60,6 +84,30 @@ const PRESETS: Record<string, DeviceVisualPreset> = {
     iconInactiveBackground: '#fed7aa',
     accent: ['#fb923c', '#fdba74'],
   },
+  Thermostat: {
+    gradient: ['#ffedd5', '#fdba74'],
+    inactiveBackground: '#fff7ed',
+    icon: '🌡️',
+    iconActiveBackground: '#ea580c',
+    iconInactiveBackground: '#fed7aa',
+    accent: ['#fb923c', '#fdba74'],
+  },
+  Lock: {
+    gradient: ['#e0f2fe', '#7dd3fc'],
+    inactiveBackground: '#f0f9ff',
+    icon: '🔒',
+    iconActiveBackground: '#0284c7',
+    iconInactiveBackground: '#bae6fd',
+    accent: ['#0ea5e9', '#7dd3fc'],
+  },
+  Vacuum: {
+    gradient: ['#dcfce7', '#86efac'],
+    inactiveBackground: '#f0fdf4',
+    icon: '🧹',
+    iconActiveBackground: '#16a34a',
+    iconInactiveBackground: '#bbf7d0',
+    accent: ['#22c55e', '#86efac'],
+  },
   Doorbell: {
     gradient: ['#ffedd5', '#fbbf24'],
     inactiveBackground: '#fff8e1',
@@ -76,6 +124,14 @@ const PRESETS: Record<string, DeviceVisualPreset> = {
     iconInactiveBackground: '#c7d2fe',
     accent: ['#6366f1', '#818cf8'],
   },
+  Controls: {
+    gradient: ['#f1f5f9', '#cbd5e1'],
+    inactiveBackground: '#f8fafc',
+    icon: '🎛️',
+    iconActiveBackground: '#475569',
+    iconInactiveBackground: '#e2e8f0',
+    accent: ['#64748b', '#cbd5e1'],
+  },
   TV: {
     gradient: ['#e0e7ff', '#6366f1'],
     inactiveBackground: '#eef2ff',
@@ -104,19 +160,183 @@ export function isDeviceActive(label: string | null | undefined, device: UIDevic
   const activeForMotion = ['on', 'motion', 'detected', 'open'];
   switch (label) {
     case 'Light':
+    case 'Fan':
     case 'Spotify':
     case 'TV':
     case 'Speaker':
       return state === 'on' || state === 'playing';
-    case 'Blind':
-      return state === 'open' || state === 'opening';
+    case 'Blind': {
+      if (state === 'opening' || state === 'closing') return true;
+      const position = getCoverPosition(device);
+      return position !== null ? position > 0 : state === 'open';
+    }
     case 'Home Security':
     case 'Doorbell':
     case 'Boiler':
       return true;
+    case 'Thermostat':
+      return state !== 'off' && state !== 'unavailable';
+    case 'Vacuum':
+      return state === 'cleaning' || state === 'returning';
+    // Highlight locks that need attention: open, moving or jammed.
+    case 'Lock':
+      return state !== 'locked';
     case 'Motion Sensor':
       return activeForMotion.includes(state);
+    // Open doors and windows, and hazards that are currently detected.
+    case 'Contact':
+    case 'Safety':
+      return state === 'on';
     default:
       return state === 'on' || state === 'playing';
   }
 }
+
+export function getCoverPosition(device: UIDevice): number | null {
+  const position = device.attributes?.current_position;
+  return typeof position === 'number' ? Math.round(position) : null;
+}
+
+/** e.g. "Open 50%", "Closing… 30%", "Closed". */
+export function getCoverStatus(device: UIDevice): string {
+  const state = (device.state ?? '').toString().toLowerCase();
+  const position = getCoverPosition(device);
+  const suffix = position !== null ? ` ${position}%` : '';
+  switch (state) {
+    case 'opening':
+      return `Opening…${suffix}`;
+    case 'closing':
+      return `Closing…${suffix}`;
+    case 'closed':
+      return 'Closed';
+    case 'open':
+      return position !== null && position < 100 ? `Open${suffix}` : 'Open';
+    default:
+      return state ? state.charAt(0).toUpperCase() + state.slice(1) : 'Idle';
+  }
+}
+
+const LOCK_STATUS: Record<string, string> = {
+  locked: 'Locked',
+  unlocked: 'Unlocked',
+  locking: 'Locking…',
+  unlocking: 'Unlocking…',
+  jammed: 'Jammed – check the door',
+  open: 'Open',
+  opening: 'Opening…',
+};
+
+export function getLockStatus(device: UIDevice): string {
+  const state = (device.state ?? '').toString().toLowerCase();
+  return LOCK_STATUS[state] ?? (state ? state.charAt(0).toUpperCase() + state.slice(1) : 'Unknown');
+}
+
+export function isLockJammed(device: UIDevice): boolean {
+  return (device.state ?? '').toString().toLowerCase() === 'jammed';
+}
+
+const ALARM_STATUS: Record<string, string> = {
+  disarmed: 'Disarmed',
+  armed_home: 'Armed – home',
+  armed_away: 'Armed – away',
+  armed_night: 'Armed – night',
+  armed_vacation: 'Armed – vacation',
+  armed_custom_bypass: 'Armed – custom',
+  arming: 'Arming…',
+  disarming: 'Disarming…',
+  pending: 'Entry delay – disarm now',
+  triggered: 'ALARM TRIGGERED',
+};
+
+export function getAlarmStatus(device: UIDevice): string {
+  const state = (device.state ?? '').toString().toLowerCase();
+  return ALARM_STATUS[state] ?? (state ? state.charAt(0).toUpperCase() + state.slice(1) : 'Unknown');
+}
+
+export function isAlarmTriggered(device: UIDevice): boolean {
+  return (device.state ?? '').toString().toLowerCase() === 'triggered';
+}
+
+/** e.g. "On • 66%", "On • Breeze", "Off". */
+export function getFanStatus(device: UIDevice): string {
+  const state = (device.state ?? '').toString().toLowerCase();
+  if (state !== 'on') return state === 'off' ? 'Off' : state || 'Unknown';
+  const attrs = device.attributes ?? {};
+  if (typeof attrs.preset_mode === 'string' && attrs.preset_mode) {
+    return `On • ${attrs.preset_mode}`;
+  }
+  return typeof attrs.percentage === 'number' ? `On • ${Math.round(attrs.percentage)}%` : 'On';
+}
+
+/** e.g. "On", "21.5 °C", "Eco", "Pressed 14:05". */
+export function getHelperStatus(device: UIDevice): string {
+  const state = (device.state ?? '').toString();
+  const attrs = device.attributes ?? {};
+  switch (device.domain) {
+    case 'input_boolean':
+      return state === 'on' ? 'On' : state === 'off' ? 'Off' : state || 'Unknown';
+    case 'input_button':
+    case 'button': {
+      // Buttons have no on/off; their state is when they were last pressed.
+      const pressedAt = Date.parse(state);
+      if (!Number.isFinite(pressedAt)) return 'Never pressed';
+      const when = new Date(pressedAt);
+      const sameDay = when.toDateString() === new Date().toDateString();
+      return `Pressed ${sameDay ? when.toLocaleTimeString() : when.toLocaleDateString()}`;
+    }
+    case 'input_number':
+    case 'number': {
+      const unit =
+        typeof attrs.unit_of_measurement === 'string' ? ` ${attrs.unit_of_measurement}` : '';
+      return state ? `${state}${unit}` : 'Unknown';
+    }
+    default:
+      return state || 'Unknown';
+  }
+}
+
+const VACUUM_STATUS: Record<string, string> = {
+  cleaning: 'Cleaning',
+  docked: 'Docked',
+  returning: 'Returning to dock',
+  paused: 'Paused',
+  idle: 'Idle',
+  error: 'Needs attention',
+};
+
+export function getVacuumStatus(device: UIDevice): string {
+  const state = (device.state ?? '').toString().toLowerCase();
+  const label =
+    VACUUM_STATUS[state] ?? (state ? state.charAt(0).toUpperCase() + state.slice(1) : 'Unknown');
+  // Integrations put the specific fault ("Brush jammed") in `status`.
+  const status = device.attributes?.status;
+  return state === 'error' && typeof status === 'string' && status ? `${label}: ${status}` : label;
+}
+
+function toHex(channel: number) {
+  return Math.round(Math.min(255, Math.max(0, channel)))
+    .toString(16)
+    .padStart(2, '0');
+}
+
+export function rgbToHex(rgb: readonly number[]): string {
+  return `#${toHex(rgb[0])}${toHex(rgb[1])}${toHex(rgb[2])}`;
+}
+
+// hue 0–360, saturation 0–100, at full value.
+export function hsToHex(hue: number, saturation: number): string {
+  const s = saturation / 100;
+  const k = (n: number) => (n + hue / 60) % 6;
+  const f = (n: number) => 1 - s * Math.max(0, Math.min(k(n), 4 - k(n), 1));
+  return rgbToHex([f(5) * 255, f(3) * 255, f(1) * 255]);
+}
+
+/** Colour of a lit bulb, from its `rgb_color`; null when off or not reported. */
+export function getLightTint(device: UIDevice): string | null {
+  if ((device.state ?? '').toString().toLowerCase() !== 'on') return null;
+  const rgb = device.attributes?.rgb_color;
+  if (!Array.isArray(rgb) || rgb.length < 3 || !rgb.every((c) => typeof c === 'number')) {
+    return null;
+  }
+  return rgbToHex(rgb as number[]);
+}
@@ -11,6 +11,8 @@ export type UIDevice = {
   labels?: string[];
   domain: string;
   attributes: Record<string, unknown>;
+  // Set while an optimistic update is shown and HA hasn't confirmed it yet.
+  pending?: boolean;
 };
 
 export type DeviceOverride = {
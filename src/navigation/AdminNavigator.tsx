@@ -3,10 +3,14 @@ import React from 'react';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { AdminDashboardScreen } from '../screens/AdminDashboardScreen';
 import { AdminSettingsScreen } from '../screens/AdminSettingsScreen';
+import { AnnouncementsScreen } from '../screens/AnnouncementsScreen';
+import { MediaBrowserScreen, MediaBrowserParams } from '../screens/MediaBrowserScreen';
 
 export type AdminStackParamList = {
   AdminDashboard: undefined;
   AdminSettings: undefined;
+  Announcements: undefined;
+  MediaBrowser: MediaBrowserParams;
 };
 
 const Stack = createNativeStackNavigator<AdminStackParamList>();
@@ -16,6 +20,8 @@ export function AdminNavigator() {
     <Stack.Navigator screenOptions={{ headerShown: false }}>
       <Stack.Screen name="AdminDashboard" component={AdminDashboardScreen} />
       <Stack.Screen name="AdminSettings" component={AdminSettingsScreen} />
+      <Stack.Screen name="Announcements" component={AnnouncementsScreen} />
+      <Stack.Screen name="MediaBrowser" component={MediaBrowserScreen} />
     </Stack.Navigator>
   );
 }
@@ -3,10 +3,12 @@ import React from 'react';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { TenantDashboardScreen } from '../screens/TenantDashboardScreen';
 import { TenantSettingsScreen } from '../screens/TenantSettingsScreen';
+import { MediaBrowserScreen, MediaBrowserParams } from '../screens/MediaBrowserScreen';
 
 export type TenantStackParamList = {
   TenantDashboard: undefined;
   TenantSettings: undefined;
+  MediaBrowser: MediaBrowserParams;
 };
 
 const Stack = createNativeStackNavigator<TenantStackParamList>();
@@ -16,6 +18,7 @@ export function TenantNavigator() {
     <Stack.Navigator screenOptions={{ headerShown: false }}>
       <Stack.Screen name="TenantDashboard" component={TenantDashboardScreen} />
       <Stack.Screen name="TenantSettings" component={TenantSettingsScreen} />
+      <Stack.Screen name="MediaBrowser" component={MediaBrowserScreen} />
     </Stack.Navigator>
   );
 }
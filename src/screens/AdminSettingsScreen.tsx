@@ -3,7 +3,9 @@ import React, { useState } from 'react';
 import { View, Text, TextInput, Button, StyleSheet, Alert, ScrollView } from 'react-native';
 import { useSession } from '../store/sessionStore';
 import { changePassword, logoutRemote } from '../api/auth';
+import { UnitPreferencesSection } from '../components/UnitPreferencesSection';
 import { updateHaSettings } from '../api/dinodia';
+import { invalidateDeviceCachesForConnection } from '../store/deviceStore';
 
 export function AdminSettingsScreen() {
   const { session, clearSession, setSession } = useSession();
@@ -51,6 +53,8 @@ export function AdminSettingsScreen() {
         haLongLivedToken: haToken,
       });
       Alert.alert('Updated', 'Dinodia Hub settings updated.');
+      // Saved dashboards were read from the old hub settings; don't show them again.
+      await invalidateDeviceCachesForConnection(updated.id);
       await setSession({ user, haConnection: updated });
       setHaBaseUrl(updated.baseUrl);
       setHaCloudUrl(updated.cloudUrl ?? '');
@@ -138,6 +142,11 @@ export function AdminSettingsScreen() {
         <Button title="Update Dinodia Hub settings" onPress={onUpdateHa} />
       </View>
 
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Units</Text>
+        <UnitPreferencesSection userId={user.id} />
+      </View>
+
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Session</Text>
         <Button title="Logout" color="red" onPress={onLogout} />
@@ -0,0 +1,353 @@
+// src/screens/AnnouncementsScreen.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { fetchTenantAreas } from '../api/dinodia';
+import { getHaErrorKind } from '../api/haErrors';
+import { listTtsEngines, speakAnnouncement, TtsEngine } from '../api/haTts';
+import { useSession } from '../store/sessionStore';
+import { useDevices, useDevicesInDomain } from '../store/deviceStore';
+import {
+  Announcement,
+  clearAnnouncementHistory,
+  getAnnouncementHistory,
+  recordAnnouncement,
+} from '../store/announcementHistory';
+import { showToast } from '../store/toastStore';
+import { showHaCommandError, showHubNotReady } from '../utils/haErrorAlerts';
+
+export function AnnouncementsScreen() {
+  const navigation = useNavigation();
+  const { session, haMode, activeHa, reportHaRouteFailure } = useSession();
+  const userId = session.user!.id;
+  useDevices(userId, haMode, {
+    onConnectionLost: reportHaRouteFailure,
+    connection: session.haConnection,
+  });
+  const speakers = useDevicesInDomain(userId, haMode, 'media_player');
+
+  const [engines, setEngines] = useState<TtsEngine[]>([]);
+  const [engineId, setEngineId] = useState<string | null>(null);
+  const [areas, setAreas] = useState<string[]>([]);
+  const [selectedAreas, setSelectedAreas] = useState<string[]>([]);
+  // Speakers the admin switched off inside an otherwise selected area.
+  const [excluded, setExcluded] = useState<string[]>([]);
+  const [message, setMessage] = useState('');
+  const [history, setHistory] = useState<Announcement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    void getAnnouncementHistory(userId).then((items) => {
+      if (active) setHistory(items);
+    });
+    return () => {
+      active = false;
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    let active = true;
+    async function load() {
+      setLoading(true);
+      setLoadError(null);
+      try {
+        const [tenantAreas, ttsEngines] = await Promise.all([
+          fetchTenantAreas(userId),
+          activeHa ? listTtsEngines(activeHa) : Promise.resolve([]),
+        ]);
+        if (!active) return;
+        setAreas(tenantAreas);
+        setEngines(ttsEngines);
+        setEngineId((current) => current ?? ttsEngines[0]?.engineId ?? null);
+      } catch (err) {
+        if (!active) return;
+        if (getHaErrorKind(err) === 'unreachable') reportHaRouteFailure();
+        setLoadError(
+          err instanceof Error && err.message
+            ? err.message
+            : 'We could not load your speakers and voices right now.'
+        );
+      } finally {
+        if (active) setLoading(false);
+      }
+    }
+    void load();
+    return () => {
+      active = false;
+    };
+  }, [activeHa, reportHaRouteFailure, userId]);
+
+  const speakersInAreas = useMemo(
+    () =>
+      speakers.filter((d) => !!d.areaName && selectedAreas.includes(d.areaName)),
+    [speakers, selectedAreas]
+  );
+  const targets = speakersInAreas.filter((d) => !excluded.includes(d.entityId));
+  const canSend = !!engineId && targets.length > 0 && message.trim().length > 0 && !sending;
+
+  function toggleArea(area: string) {
+    setSelectedAreas((prev) =>
+      prev.includes(area) ? prev.filter((a) => a !== area) : [...prev, area]
+    );
+  }
+
+  function toggleSpeaker(entityId: string) {
+    setExcluded((prev) =>
+      prev.includes(entityId) ? prev.filter((id) => id !== entityId) : [...prev, entityId]
+    );
+  }
+
+  async function send() {
+    if (!engineId) return;
+    if (!activeHa) {
+      showHubNotReady(haMode);
+      return;
+    }
+    const text = message.trim();
+    setSending(true);
+    try {
+      await speakAnnouncement(activeHa, engineId, targets.map((d) => d.entityId), text);
+      const next = await recordAnnouncement(userId, {
+        message: text,
+        engineId,
+        areas: selectedAreas,
+        speakers: targets.map((d) => ({ entityId: d.entityId, name: d.name })),
+      });
+      setHistory(next);
+      setMessage('');
+      showToast(
+        `Announced on ${targets.length} speaker${targets.length === 1 ? '' : 's'}`,
+        'success'
+      );
+    } catch (err) {
+      if (getHaErrorKind(err) === 'unreachable') reportHaRouteFailure();
+      showHaCommandError(err, { isAdmin: true });
+    } finally {
+      setSending(false);
+    }
+  }
+
+  function reuse(item: Announcement) {
+    setMessage(item.message);
+    setSelectedAreas(item.areas.filter((area) => areas.includes(area)));
+    setExcluded([]);
+    if (engines.some((e) => e.engineId === item.engineId)) setEngineId(item.engineId);
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={styles.backText}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Announcements</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {loading ? (
+          <ActivityIndicator style={styles.loader} />
+        ) : loadError ? (
+          <Text style={styles.errorText}>{loadError}</Text>
+        ) : (
+          <>
+            <Text style={styles.sectionTitle}>Message</Text>
+            <TextInput
+              style={styles.input}
+              value={message}
+              onChangeText={setMessage}
+              placeholder="e.g. Water will be off 10–12 tomorrow"
+              multiline
+              maxLength={300}
+            />
+
+            <Text style={styles.sectionTitle}>Voice</Text>
+            {engines.length === 0 ? (
+              <Text style={styles.hint}>
+                No text-to-speech engines are set up on your Dinodia Hub.
+              </Text>
+            ) : (
+              <View style={styles.chipRow}>
+                {engines.map((engine) => (
+                  <Chip
+                    key={engine.engineId}
+                    text={engine.name}
+                    selected={engine.engineId === engineId}
+                    onPress={() => setEngineId(engine.engineId)}
+                  />
+                ))}
+              </View>
+            )}
+
+            <Text style={styles.sectionTitle}>Areas</Text>
+            {areas.length === 0 ? (
+              <Text style={styles.hint}>No tenant areas have been set up yet.</Text>
+            ) : (
+              <View style={styles.chipRow}>
+                {areas.map((area) => (
+                  <Chip
+                    key={area}
+                    text={area}
+                    selected={selectedAreas.includes(area)}
+                    onPress={() => toggleArea(area)}
+                  />
+                ))}
+              </View>
+            )}
+
+            {selectedAreas.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Speakers</Text>
+                {speakersInAreas.length === 0 ? (
+                  <Text style={styles.hint}>There are no speakers in these areas.</Text>
+                ) : (
+                  <View style={styles.chipRow}>
+                    {speakersInAreas.map((speaker) => (
+                      <Chip
+                        key={speaker.entityId}
+                        text={`${speaker.name} · ${speaker.areaName}`}
+                        selected={!excluded.includes(speaker.entityId)}
+                        onPress={() => toggleSpeaker(speaker.entityId)}
+                      />
+                    ))}
+                  </View>
+                )}
+              </>
+            )}
+
+            <TouchableOpacity
+              style={[styles.sendButton, !canSend && styles.sendButtonDisabled]}
+              onPress={() => void send()}
+              disabled={!canSend}
+            >
+              <Text style={styles.sendButtonText}>{sending ? 'Sending…' : 'Announce'}</Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        <View style={styles.historyHeader}>
+          <Text style={styles.sectionTitle}>Sent</Text>
+          {history.length > 0 && (
+            <TouchableOpacity
+              onPress={() => {
+                setHistory([]);
+                void clearAnnouncementHistory(userId);
+              }}
+            >
+              <Text style={styles.clearText}>Clear</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        {history.length === 0 ? (
+          <Text style={styles.hint}>Announcements you send will appear here.</Text>
+        ) : (
+          history.map((item) => (
+            <TouchableOpacity key={item.id} style={styles.historyItem} onPress={() => reuse(item)}>
+              <Text style={styles.historyMessage}>{item.message}</Text>
+              <Text style={styles.historyMeta}>
+                {new Date(item.sentAt).toLocaleString()} · {item.areas.join(', ')} ·{' '}
+                {item.speakers.length} speaker{item.speakers.length === 1 ? '' : 's'}
+              </Text>
+            </TouchableOpacity>
+          ))
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+function Chip({
+  text,
+  selected,
+  onPress,
+}: {
+  text: string;
+  selected: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <TouchableOpacity style={[styles.chip, selected && styles.chipSelected]} onPress={onPress}>
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{text}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#f5f5f7' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  backButton: { paddingRight: 12, paddingVertical: 4 },
+  backText: { fontSize: 16, color: '#4f46e5', fontWeight: '600' },
+  title: { flex: 1, fontSize: 20, fontWeight: '700', color: '#111827' },
+  content: { paddingHorizontal: 16, paddingBottom: 32 },
+  loader: { marginVertical: 24 },
+  errorText: { fontSize: 14, color: '#b91c1c', marginVertical: 12 },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#111827',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  hint: { fontSize: 12, color: '#6b7280' },
+  input: {
+    minHeight: 80,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    backgroundColor: '#fff',
+    textAlignVertical: 'top',
+  },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: {
+    paddingVertical: 7,
+    paddingHorizontal: 12,
+    borderRadius: 999,
+    backgroundColor: '#e5e7eb',
+  },
+  chipSelected: { backgroundColor: '#111827' },
+  chipText: { fontSize: 13, color: '#111827', fontWeight: '600' },
+  chipTextSelected: { color: '#fff' },
+  sendButton: {
+    marginTop: 20,
+    backgroundColor: '#4f46e5',
+    paddingVertical: 12,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  sendButtonDisabled: { opacity: 0.5 },
+  sendButtonText: { color: '#fff', fontSize: 15, fontWeight: '700' },
+  historyHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  clearText: { fontSize: 13, color: '#4f46e5', fontWeight: '600', marginTop: 8 },
+  historyItem: {
+    backgroundColor: '#fff',
+    borderRadius: 14,
+    padding: 12,
+    marginBottom: 8,
+  },
+  historyMessage: { fontSize: 14, color: '#111827', fontWeight: '500' },
+  historyMeta: { fontSize: 11, color: '#6b7280', marginTop: 4 },
+});
@@ -8,18 +8,38 @@ import {
   Modal,
   Pressable,
   useWindowDimensions,
+  ViewToken,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useIsFocused, useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import type { UIDevice } from '../models/device';
+import type { HaConnection } from '../models/haConnection';
 import { normalizeLabel } from '../utils/deviceLabels';
 import { isDetailDevice, isSensorDevice } from '../utils/deviceKinds';
+import { isHazardActive } from '../utils/binarySensors';
 import { logoutRemote } from '../api/auth';
 import { DeviceCard } from '../components/DeviceCard';
 import type { DeviceCardSize } from '../components/DeviceCard';
 import { DeviceDetail } from '../components/DeviceDetail';
-import { useDevices, clearDeviceCacheForUserAndMode } from '../store/deviceStore';
+import {
+  getCachedDevice,
+  useActiveHazards,
+  useDevice,
+  useDevices,
+  useAreaNames,
+  useDevicesInArea,
+  useDevicesInDomain,
+  useDevicesOnDevice,
+  useDevicesWithLabel,
+  clearDeviceCacheForUserAndMode,
+} from '../store/deviceStore';
+import { useCommandQueue, QueuedCommand } from '../store/commandQueue';
+import type { HaConnectionLike } from '../api/ha';
 import type { HaMode } from '../api/dinodia';
+import type { HaModePreference } from '../api/haRoute';
 import {
+  ALERTS_SECTION_TITLE,
   buildDeviceSections,
   buildSectionLayoutRows,
   getDeviceDimensions,
@@ -27,10 +47,14 @@ import {
   LayoutRow,
 } from '../utils/deviceSections';
 import { HeaderMenu } from '../components/HeaderMenu';
+import { StaleDataBanner } from '../components/StaleDataBanner';
 import { SpotifyCard } from '../components/SpotifyCard';
 import { loadJson, saveJson } from '../utils/storage';
 import type { Role } from '../models/roles';
 import { useSession } from '../store/sessionStore';
+import { getRefreshProfile, noteUserActivity } from '../store/refreshScheduler';
+import { useDeviceActivityToasts } from '../store/activityToasts';
+import type { AdminStackParamList } from '../navigation/AdminNavigator';
 
 const CARD_BASE_ROW_HEIGHT = 130;
 const ALL_AREAS = 'ALL';
@@ -40,18 +64,78 @@ type DashboardContentProps = {
   userId: number;
   role: Role;
   haMode: HaMode;
+  haModePreference: HaModePreference;
+  activeHa: HaConnectionLike | null;
+  haConnection: HaConnection | null;
   clearSession: () => Promise<void>;
-  setHaMode: (mode: HaMode) => void;
+  setHaModePreference: (preference: HaModePreference) => void;
+  reportHaRouteFailure: () => void;
 };
 
-function DashboardContent({ userId, role, haMode, clearSession, setHaMode }: DashboardContentProps) {
+function DashboardContent({
+  userId,
+  role,
+  haMode,
+  haModePreference,
+  activeHa,
+  haConnection,
+  clearSession,
+  setHaModePreference,
+  reportHaRouteFailure,
+}: DashboardContentProps) {
   const isAdmin = role === 'ADMIN';
   const hideSensors = false; // Show sensors for all roles; tenants are already filtered by access rules.
   const persistAreaSelection = role === 'TENANT';
-  const { devices, refreshing, error, refreshDevices, lastUpdated } = useDevices(userId, haMode);
+  const { width, height } = useWindowDimensions();
+  const shortestSide = Math.min(width, height);
+  const isFocused = useIsFocused();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const refreshProfile = useMemo(
+    () => getRefreshProfile(role, shortestSide >= 600),
+    [role, shortestSide]
+  );
+  // Cards on screen, plus the open device; polled more often than the rest.
+  const [onScreenIds, setOnScreenIds] = useState<string[]>([]);
+  const priorityEntityIds = useMemo(() => {
+    const ids = selectedId ? [selectedId, ...onScreenIds] : onScreenIds;
+    return ids.length > 0 ? Array.from(new Set(ids)) : undefined;
+  }, [onScreenIds, selectedId]);
+  const {
+    hasDevices,
+    refreshing,
+    error,
+    errorKind,
+    liveStatus,
+    refreshDevices,
+    lastUpdated,
+    stale,
+  } = useDevices(userId, haMode, {
+    onConnectionLost: reportHaRouteFailure,
+    profile: refreshProfile,
+    // Nothing to keep fresh while another screen is on top.
+    paused: !isFocused,
+    priorityEntityIds,
+    connection: haConnection,
+  });
+  useDeviceActivityToasts(userId, activeHa);
+  const { queued, cancel: cancelQueued } = useCommandQueue(userId, activeHa, {
+    onReplayed: () => void refreshDevices({ background: true }),
+    getDevice: (entityId) => getCachedDevice(userId, haMode, entityId),
+  });
+  const queuedByEntity = useMemo(() => {
+    const map = new Map<string, QueuedCommand[]>();
+    for (const item of queued) {
+      const list = map.get(item.entityId) ?? [];
+      list.push(item);
+      map.set(item.entityId, list);
+    }
+    return map;
+  }, [queued]);
+  const navigation = useNavigation<NativeStackNavigationProp<AdminStackParamList>>();
   const [loggingOut, setLoggingOut] = useState(false);
   const [menuVisible, setMenuVisible] = useState(false);
-  const [selected, setSelected] = useState<UIDevice | null>(null);
+  // Follows live updates for just the open device.
+  const selected = useDevice(userId, haMode, selectedId);
   const [selectedArea, setSelectedArea] = useState<string | typeof ALL_AREAS>(ALL_AREAS);
   const [areaMenuVisible, setAreaMenuVisible] = useState(false);
   const [areaPrefLoaded, setAreaPrefLoaded] = useState(!persistAreaSelection);
@@ -73,15 +157,7 @@ function DashboardContent({ userId, role, haMode, clearSession, setHaMode }: Das
   };
 
   useEffect(() => {
-    if (!selected) return;
-    const updated = devices.find((d) => d.entityId === selected.entityId);
-    if (updated && updated !== selected) {
-      setSelected(updated);
-    }
-  }, [devices, selected]);
-
-  useEffect(() => {
-    setSelected(null);
+    setSelectedId(null);
   }, [haMode]);
 
   useEffect(() => {
@@ -109,19 +185,8 @@ function DashboardContent({ userId, role, haMode, clearSession, setHaMode }: Das
     void saveJson(areaStorageKey, selectedArea).catch(() => undefined);
   }, [areaPrefLoaded, areaStorageKey, selectedArea]);
 
-  const areaOptions = useMemo(() => {
-    const names = new Set<string>();
-    for (const d of devices) {
-      const areaName = (d.area ?? d.areaName ?? '').trim();
-      if (areaName.length > 0) {
-        names.add(areaName);
-      }
-    }
-    return Array.from(names).sort((a, b) => a.localeCompare(b));
-  }, [devices]);
+  const areaOptions = useAreaNames(userId, haMode);
 
-  const { width, height } = useWindowDimensions();
-  const shortestSide = Math.min(width, height);
   const isLandscape = width > height;
 
   const maxColumns = useMemo(() => {
@@ -135,19 +200,30 @@ function DashboardContent({ userId, role, haMode, clearSession, setHaMode }: Das
     return CARD_BASE_ROW_HEIGHT - 30;
   }, [shortestSide]);
 
+  // Selectors, so live updates outside the chosen area don't rebuild the grid.
+  const areaDevices = useDevicesInArea(
+    userId,
+    haMode,
+    selectedArea === ALL_AREAS ? null : selectedArea
+  );
+  // Active hazards stay pinned whichever area is being viewed, even before
+  // anyone has given the sensor an area or label.
+  const activeHazards = useActiveHazards(userId, haMode);
+
   const visibleDevices = useMemo(
-    () =>
-      devices.filter((d) => {
-        const areaName = (d.area ?? d.areaName ?? '').trim();
+    () => [
+      ...activeHazards,
+      ...areaDevices.filter((d) => {
+        if (isHazardActive(d)) return false;
         const labels = Array.isArray(d.labels) ? d.labels : [];
         const hasLabel =
           normalizeLabel(d.label).length > 0 ||
           labels.some((lbl) => normalizeLabel(lbl).length > 0);
-        const matchesArea = selectedArea === ALL_AREAS ? true : areaName === selectedArea;
-        const filteredOut = hideSensors && (isSensorDevice(d) || isDetailDevice(d.state));
-        return areaName.length > 0 && hasLabel && matchesArea && !filteredOut;
+        const filteredOut = hideSensors && (isSensorDevice(d) || isDetailDevice(d.state, d.domain));
+        return hasLabel && !filteredOut;
       }),
-    [devices, hideSensors, selectedArea]
+    ],
+    [activeHazards, areaDevices, hideSensors]
   );
 
   useEffect(() => {
@@ -163,19 +239,34 @@ function DashboardContent({ userId, role, haMode, clearSession, setHaMode }: Das
     [sections, maxColumns]
   );
 
+  const sameDeviceEntities = useDevicesOnDevice(userId, haMode, selected?.deviceId || null);
   const linkedSensors = useMemo(
     () =>
-      selected?.deviceId
-        ? devices.filter(
-            (d) =>
-              d.deviceId === selected.deviceId &&
-              d.entityId !== selected.entityId &&
-              isSensorDevice(d)
-          )
-        : [],
-    [devices, selected]
+      sameDeviceEntities.filter((d) => d.entityId !== selected?.entityId && isSensorDevice(d)),
+    [sameDeviceEntities, selected?.entityId]
   );
 
+  // Home Security shows every camera and alarm panel; TV and Speaker list the
+  // other media players they can be grouped with.
+  const securityDevices = useDevicesWithLabel(
+    userId,
+    haMode,
+    selected?.label === 'Home Security' ? 'Home Security' : null
+  );
+  const mediaPlayers = useDevicesInDomain(
+    userId,
+    haMode,
+    selected?.domain === 'media_player' ? 'media_player' : null
+  );
+  const relatedDevices = useMemo(() => {
+    if (!selected) return undefined;
+    if (selected.label === 'Home Security') return securityDevices;
+    if (selected.domain === 'media_player') {
+      return mediaPlayers.filter((d) => d.entityId !== selected.entityId);
+    }
+    return undefined;
+  }, [mediaPlayers, securityDevices, selected]);
+
   const handleRefresh = useCallback(() => {
     void refreshDevices();
   }, [refreshDevices]);
@@ -184,21 +275,59 @@ function DashboardContent({ userId, role, haMode, clearSession, setHaMode }: Das
     void refreshDevices({ background: true });
   }, [refreshDevices]);
 
-  const handleOpenDetails = useCallback((device: UIDevice) => setSelected(device), []);
-  const handleCloseDetails = useCallback(() => setSelected(null), []);
-  const handleCommandComplete = useCallback(
-    () => handleBackgroundRefresh(),
-    [handleBackgroundRefresh]
+  const handleOpenHubSettings = useCallback(() => {
+    if (!isAdmin) return;
+    navigation.navigate('AdminSettings');
+  }, [isAdmin, navigation]);
+
+  const handleOpenAnnouncements = useCallback(() => {
+    if (!isAdmin) return;
+    navigation.navigate('Announcements');
+  }, [isAdmin, navigation]);
+
+  const handleBrowseMedia = useCallback(
+    (device: UIDevice) => {
+      navigation.navigate('MediaBrowser', { entityId: device.entityId, name: device.name });
+    },
+    [navigation]
+  );
+
+  const handleOpenDetails = useCallback((device: UIDevice) => setSelectedId(device.entityId), []);
+  const handleCloseDetails = useCallback(() => setSelectedId(null), []);
+  // With the live feed connected, the state change arrives on its own and
+  // reconciles the optimistic update; only poll when we'd otherwise miss it.
+  const handleCommandComplete = useCallback(() => {
+    if (liveStatus === 'connected') return;
+    handleBackgroundRefresh();
+  }, [handleBackgroundRefresh, liveStatus]);
+
+  const handleSelectModePreference = useCallback(
+    (preference: HaModePreference) => {
+      if (preference === 'auto' || preference === haMode) {
+        setHaModePreference(preference);
+        return;
+      }
+      void clearDeviceCacheForUserAndMode(userId, preference)
+        .catch(() => undefined)
+        .then(() => {
+          setHaModePreference(preference);
+        });
+    },
+    [haMode, setHaModePreference, userId]
   );
 
-  const handleToggleMode = useCallback(() => {
-    const nextMode: HaMode = isCloud ? 'home' : 'cloud';
-    void clearDeviceCacheForUserAndMode(userId, nextMode)
-      .catch(() => undefined)
-      .then(() => {
-        setHaMode(nextMode);
-      });
-  }, [isCloud, setHaMode, userId]);
+  // FlatList doesn't allow swapping this callback after mount, so it must stay stable.
+  const handleViewableItemsChanged = useCallback(
+    ({ viewableItems }: { viewableItems: ViewToken<LayoutRow>[] }) => {
+      const ids = viewableItems.flatMap((token) =>
+        (token.item?.sections ?? []).flatMap((section) => section.devices.map((d) => d.entityId))
+      );
+      setOnScreenIds((prev) =>
+        prev.length === ids.length && prev.every((id, index) => id === ids[index]) ? prev : ids
+      );
+    },
+    []
+  );
 
   const renderDeviceRow = useCallback(
     ({ item }: { item: LayoutRow }) => (
@@ -208,8 +337,15 @@ function DashboardContent({ userId, role, haMode, clearSession, setHaMode }: Das
           return (
             <View key={section.key} style={[styles.sectionContainer, { width: sectionWidth }]}>
               <View style={styles.sectionHeader}>
-                <Text style={styles.sectionTitle}>{section.title}</Text>
-                {refreshing && devices.length === 0 && (
+                <Text
+                  style={[
+                    styles.sectionTitle,
+                    section.title === ALERTS_SECTION_TITLE && styles.sectionTitleAlert,
+                  ]}
+                >
+                  {section.title}
+                </Text>
+                {refreshing && !hasDevices && (
                   <Text style={styles.refreshing}>Refreshing…</Text>
                 )}
               </View>
@@ -228,8 +364,11 @@ function DashboardContent({ userId, role, haMode, clearSession, setHaMode }: Das
                         device={device}
                         isAdmin={isAdmin}
                         size={size}
-                        onAfterCommand={handleBackgroundRefresh}
+                        onAfterCommand={handleCommandComplete}
                         onOpenDetails={handleOpenDetails}
+                        onOpenHubSettings={isAdmin ? handleOpenHubSettings : undefined}
+                        queuedCommands={queuedByEntity.get(device.entityId)}
+                        stale={stale}
                       />
                     </View>
                   );
@@ -242,27 +381,33 @@ function DashboardContent({ userId, role, haMode, clearSession, setHaMode }: Das
     ),
     [
       baseCardHeight,
-      devices.length,
-      handleBackgroundRefresh,
+      hasDevices,
+      handleCommandComplete,
       handleOpenDetails,
+      handleOpenHubSettings,
       maxColumns,
       isAdmin,
+      queuedByEntity,
       refreshing,
+      stale,
     ]
   );
 
-  const isColdStart = !lastUpdated && devices.length === 0 && !error;
-  const showErrorEmpty = !!error && devices.length === 0;
-  const modeLabel = isCloud ? 'Cloud Mode' : 'Home Mode';
+  const isColdStart = !lastUpdated && !hasDevices && !error;
+  const showErrorEmpty = !!error && !hasDevices;
+  const modeLabel = `${isCloud ? 'Cloud Mode' : 'Home Mode'}${
+    haModePreference === 'auto' ? '' : ' (manual)'
+  }`;
   const headerAreaLabel = selectedArea === ALL_AREAS ? ALL_AREAS_LABEL : selectedArea;
 
   return (
-    <View style={styles.screen}>
+    <View style={styles.screen} onTouchStart={noteUserActivity}>
       <FlatList
         style={styles.list}
         data={rows}
         keyExtractor={(item) => item.key}
         renderItem={renderDeviceRow}
+        onViewableItemsChanged={handleViewableItemsChanged}
         extraData={maxColumns}
         contentContainerStyle={styles.listContent}
         ListHeaderComponent={
@@ -285,7 +430,13 @@ function DashboardContent({ userId, role, haMode, clearSession, setHaMode }: Das
                 <Text style={styles.menuIconText}>⋯</Text>
               </TouchableOpacity>
             </View>
+            {stale && <StaleDataBanner updatedAt={lastUpdated} />}
             {error && <Text style={styles.error}>{error}</Text>}
+            {errorKind === 'auth' && isAdmin && (
+              <TouchableOpacity onPress={handleOpenHubSettings} activeOpacity={0.7}>
+                <Text style={styles.errorAction}>Open Dinodia Hub settings</Text>
+              </TouchableOpacity>
+            )}
           </View>
         }
         ListEmptyComponent={
@@ -363,20 +514,23 @@ function DashboardContent({ userId, role, haMode, clearSession, setHaMode }: Das
         visible={!!selected}
         onClose={handleCloseDetails}
         onCommandComplete={handleCommandComplete}
-        relatedDevices={
-          selected && selected.label === 'Home Security'
-            ? devices.filter((d) => d.label === 'Home Security')
-            : undefined
-        }
+        relatedDevices={relatedDevices}
         linkedSensors={linkedSensors}
         allowSensorHistory
+        onOpenHubSettings={isAdmin ? handleOpenHubSettings : undefined}
+        onBrowseMedia={handleBrowseMedia}
+        queuedCommands={selected ? queuedByEntity.get(selected.entityId) : undefined}
+        onCancelQueued={cancelQueued}
+        stale={stale}
       />
       <HeaderMenu
         visible={menuVisible}
         isCloud={isCloud}
+        modePreference={haModePreference}
         onClose={() => setMenuVisible(false)}
-        onToggleMode={handleToggleMode}
+        onSelectModePreference={handleSelectModePreference}
         onLogout={handleLogout}
+        onOpenAnnouncements={isAdmin ? handleOpenAnnouncements : undefined}
       />
     </View>
   );
@@ -387,7 +541,15 @@ type DashboardScreenProps = {
 };
 
 export function DashboardScreen({ role }: DashboardScreenProps) {
-  const { session, clearSession, haMode, setHaMode } = useSession();
+  const {
+    session,
+    clearSession,
+    haMode,
+    haModePreference,
+    activeHa,
+    setHaModePreference,
+    reportHaRouteFailure,
+  } = useSession();
   const userId = session.user?.id!;
   const key = `${userId}_${haMode}_${role}`;
 
@@ -398,8 +560,12 @@ export function DashboardScreen({ role }: DashboardScreenProps) {
         userId={userId}
         role={role}
         haMode={haMode}
+        haModePreference={haModePreference}
+        activeHa={activeHa}
+        haConnection={session.haConnection}
         clearSession={clearSession}
-        setHaMode={setHaMode}
+        setHaModePreference={setHaModePreference}
+        reportHaRouteFailure={reportHaRouteFailure}
       />
     </SafeAreaView>
   );
@@ -421,6 +587,7 @@ const styles = StyleSheet.create({
   headerArea: { fontSize: 20, fontWeight: '600', color: '#111827' },
   headerMode: { fontSize: 20, fontWeight: '600', color: '#111827' },
   error: { color: 'red', marginBottom: 8 },
+  errorAction: { color: '#111827', fontWeight: '600', marginBottom: 8 },
   menuIconButton: {
     width: 32,
     height: 32,
@@ -444,6 +611,7 @@ const styles = StyleSheet.create({
     marginBottom: 6,
   },
   sectionTitle: { fontSize: 12, fontWeight: '600', color: '#6b7280' },
+  sectionTitleAlert: { color: '#dc2626', fontWeight: '700' },
   sectionCards: { flexDirection: 'row', flexWrap: 'wrap' },
   cardWrapper: { paddingHorizontal: 4, paddingVertical: 6, flexShrink: 0 },
   emptyState: { paddingVertical: 32, alignItems: 'center' },
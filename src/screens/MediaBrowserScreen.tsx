@@ -0,0 +1,270 @@
+// src/screens/MediaBrowserScreen.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  Image,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import {
+  browseMedia,
+  BrowseMediaItem,
+  playMediaItem,
+  resolveMediaThumbnail,
+} from '../api/haMediaBrowser';
+import { getHaErrorKind } from '../api/haErrors';
+import { useSession } from '../store/sessionStore';
+import { showHaCommandError, showHubNotReady } from '../utils/haErrorAlerts';
+import { showToast } from '../store/toastStore';
+
+export type MediaBrowserParams = {
+  entityId: string;
+  name: string;
+};
+
+type MediaBrowserRoute = RouteProp<{ MediaBrowser: MediaBrowserParams }, 'MediaBrowser'>;
+
+export function MediaBrowserScreen() {
+  const navigation = useNavigation();
+  const { params } = useRoute<MediaBrowserRoute>();
+  const { session, haMode, activeHa, reportHaRouteFailure } = useSession();
+  const isAdmin = session.user?.role === 'ADMIN';
+
+  // Each level visited so far; the last one is on screen. Empty until the root loads.
+  const [trail, setTrail] = useState<BrowseMediaItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // The level that failed to open, so "Try again" can ask for it again.
+  const [failedItem, setFailedItem] = useState<BrowseMediaItem | undefined>(undefined);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+
+  const load = useCallback(
+    async (item?: BrowseMediaItem) => {
+      if (!activeHa) {
+        setLoading(false);
+        setError('Your Dinodia Hub is not reachable right now.');
+        return;
+      }
+      setLoading(true);
+      setError(null);
+      setFailedItem(item);
+      try {
+        const level = await browseMedia(activeHa, params.entityId, item);
+        setTrail((prev) => (item ? [...prev, level] : [level]));
+      } catch (err) {
+        if (getHaErrorKind(err) === 'unreachable') reportHaRouteFailure();
+        setError(
+          err instanceof Error && err.message
+            ? err.message
+            : 'We could not load media for this player.'
+        );
+      } finally {
+        setLoading(false);
+      }
+    },
+    [activeHa, params.entityId, reportHaRouteFailure]
+  );
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  async function play(item: BrowseMediaItem) {
+    if (!activeHa) {
+      showHubNotReady(haMode);
+      return;
+    }
+    setPlayingId(item.media_content_id);
+    try {
+      await playMediaItem(activeHa, params.entityId, item);
+      showToast(`Playing ${item.title} on ${params.name}`, 'success');
+    } catch (err) {
+      if (getHaErrorKind(err) === 'unreachable') reportHaRouteFailure();
+      showHaCommandError(err, { isAdmin });
+    } finally {
+      setPlayingId(null);
+    }
+  }
+
+  function openItem(item: BrowseMediaItem) {
+    if (item.can_expand) {
+      void load(item);
+    } else if (item.can_play) {
+      void play(item);
+    }
+  }
+
+  const current = trail[trail.length - 1] ?? null;
+  const children = current?.children ?? [];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={styles.backText}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title} numberOfLines={1}>
+          {params.name}
+        </Text>
+      </View>
+
+      {trail.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.crumbs}
+          contentContainerStyle={styles.crumbsContent}
+        >
+          {trail.map((level, index) => {
+            const last = index === trail.length - 1;
+            return (
+              <View key={`${level.media_content_id}-${index}`} style={styles.crumbItem}>
+                {index > 0 && <Text style={styles.crumbSeparator}>›</Text>}
+                <TouchableOpacity
+                  disabled={last || loading}
+                  onPress={() => setTrail((prev) => prev.slice(0, index + 1))}
+                >
+                  <Text style={[styles.crumbText, last && styles.crumbTextCurrent]}>
+                    {index === 0 ? 'Media' : level.title}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            );
+          })}
+        </ScrollView>
+      )}
+
+      {current?.can_play && trail.length > 1 && (
+        <TouchableOpacity
+          style={styles.playAllButton}
+          onPress={() => void play(current)}
+          disabled={!!playingId}
+        >
+          <Text style={styles.playAllText}>Play {current.title}</Text>
+        </TouchableOpacity>
+      )}
+
+      {error ? (
+        <View style={styles.centered}>
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity
+            style={styles.retryButton}
+            onPress={() => void load(failedItem)}
+          >
+            <Text style={styles.retryText}>Try again</Text>
+          </TouchableOpacity>
+        </View>
+      ) : loading && !current ? (
+        <View style={styles.centered}>
+          <ActivityIndicator />
+        </View>
+      ) : (
+        <FlatList
+          data={children}
+          keyExtractor={(item, index) => `${item.media_content_id}-${index}`}
+          contentContainerStyle={styles.list}
+          ListEmptyComponent={<Text style={styles.emptyText}>Nothing to play here.</Text>}
+          renderItem={({ item }) => {
+            const thumb = activeHa ? resolveMediaThumbnail(activeHa, item.thumbnail) : null;
+            return (
+              <TouchableOpacity
+                style={styles.row}
+                onPress={() => openItem(item)}
+                disabled={loading || (!item.can_expand && !item.can_play)}
+              >
+                {thumb ? (
+                  <Image source={{ uri: thumb }} style={styles.thumb} />
+                ) : (
+                  <View style={[styles.thumb, styles.thumbPlaceholder]}>
+                    <Text style={styles.thumbIcon}>{item.can_expand ? '📁' : '🎵'}</Text>
+                  </View>
+                )}
+                <Text style={styles.rowTitle} numberOfLines={2}>
+                  {item.title}
+                </Text>
+                {playingId === item.media_content_id ? (
+                  <ActivityIndicator />
+                ) : item.can_play ? (
+                  <TouchableOpacity
+                    style={styles.playButton}
+                    onPress={() => void play(item)}
+                    disabled={!!playingId}
+                  >
+                    <Text style={styles.playText}>Play</Text>
+                  </TouchableOpacity>
+                ) : (
+                  <Text style={styles.chevron}>›</Text>
+                )}
+              </TouchableOpacity>
+            );
+          }}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#f5f5f7' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  backButton: { paddingRight: 12, paddingVertical: 4 },
+  backText: { fontSize: 16, color: '#4f46e5', fontWeight: '600' },
+  title: { flex: 1, fontSize: 20, fontWeight: '700', color: '#111827' },
+  crumbs: { flexGrow: 0 },
+  crumbsContent: { paddingHorizontal: 16, paddingBottom: 8, alignItems: 'center' },
+  crumbItem: { flexDirection: 'row', alignItems: 'center' },
+  crumbSeparator: { marginHorizontal: 6, color: '#9ca3af' },
+  crumbText: { fontSize: 13, color: '#4f46e5', fontWeight: '600' },
+  crumbTextCurrent: { color: '#111827' },
+  playAllButton: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+    backgroundColor: '#111827',
+    paddingVertical: 10,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  playAllText: { color: '#fff', fontSize: 14, fontWeight: '700' },
+  list: { paddingHorizontal: 16, paddingBottom: 24 },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 14,
+    padding: 10,
+    marginBottom: 8,
+  },
+  thumb: { width: 48, height: 48, borderRadius: 10, backgroundColor: '#e5e7eb' },
+  thumbPlaceholder: { alignItems: 'center', justifyContent: 'center' },
+  thumbIcon: { fontSize: 20 },
+  rowTitle: { flex: 1, marginHorizontal: 12, fontSize: 15, color: '#111827', fontWeight: '500' },
+  playButton: {
+    backgroundColor: '#4f46e5',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 999,
+  },
+  playText: { color: '#fff', fontSize: 13, fontWeight: '700' },
+  chevron: { fontSize: 22, color: '#9ca3af' },
+  centered: { flex: 1, alignItems: 'center', justifyContent: 'center', padding: 24 },
+  errorText: { fontSize: 14, color: '#4b5563', textAlign: 'center', marginBottom: 12 },
+  retryButton: {
+    backgroundColor: '#e5e7eb',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+  },
+  retryText: { fontSize: 14, fontWeight: '600', color: '#111827' },
+  emptyText: { fontSize: 14, color: '#6b7280', textAlign: 'center', marginTop: 24 },
+});
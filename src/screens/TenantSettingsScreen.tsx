@@ -3,6 +3,7 @@ import React, { useState } from 'react';
 import { View, Text, TextInput, Button, StyleSheet, Alert, ScrollView } from 'react-native';
 import { useSession } from '../store/sessionStore';
 import { changePassword, logoutRemote } from '../api/auth';
+import { UnitPreferencesSection } from '../components/UnitPreferencesSection';
 
 export function TenantSettingsScreen() {
   const { session, clearSession } = useSession();
@@ -68,6 +69,11 @@ export function TenantSettingsScreen() {
         <Button title="Update password" onPress={onChangePassword} />
       </View>
 
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Units</Text>
+        <UnitPreferencesSection userId={user.id} />
+      </View>
+
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Session</Text>
         <Button title="Logout" color="red" onPress={onLogout} />
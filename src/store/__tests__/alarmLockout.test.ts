@@ -0,0 +1,64 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  clearFailedDisarms,
+  getDisarmLockoutRemaining,
+  recordFailedDisarm,
+} from '../alarmLockout';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const MINUTE_MS = 60 * 1000;
+
+async function fail(entityId: string, times: number) {
+  let remaining = 0;
+  for (let i = 0; i < times; i += 1) {
+    remaining = await recordFailedDisarm(entityId);
+  }
+  return remaining;
+}
+
+describe('alarm disarm lockout', () => {
+  let now = 1_000_000;
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('allows a couple of wrong codes before locking the keypad for a minute', async () => {
+    expect(await fail('alarm_control_panel.home', 2)).toBe(0);
+    expect(await getDisarmLockoutRemaining('alarm_control_panel.home')).toBe(0);
+
+    expect(await recordFailedDisarm('alarm_control_panel.home')).toBe(MINUTE_MS);
+    now += 20 * 1000;
+    expect(await getDisarmLockoutRemaining('alarm_control_panel.home')).toBe(40 * 1000);
+    now += MINUTE_MS;
+    expect(await getDisarmLockoutRemaining('alarm_control_panel.home')).toBe(0);
+  });
+
+  it('doubles the lockout each round, up to half an hour', async () => {
+    expect(await fail('alarm_control_panel.garage', 3)).toBe(MINUTE_MS);
+    expect(await fail('alarm_control_panel.garage', 3)).toBe(2 * MINUTE_MS);
+    expect(await fail('alarm_control_panel.garage', 3)).toBe(4 * MINUTE_MS);
+    expect(await fail('alarm_control_panel.garage', 9)).toBe(30 * MINUTE_MS);
+  });
+
+  it('starts counting again after a successful disarm', async () => {
+    await fail('alarm_control_panel.shed', 3);
+    await clearFailedDisarms('alarm_control_panel.shed');
+    expect(await getDisarmLockoutRemaining('alarm_control_panel.shed')).toBe(0);
+    expect(await fail('alarm_control_panel.shed', 2)).toBe(0);
+  });
+
+  it('keeps the count on disk so restarting the app does not reset it', async () => {
+    await recordFailedDisarm('alarm_control_panel.flat');
+    await Promise.resolve();
+    const saved = JSON.parse((await AsyncStorage.getItem('dinodia_alarm_lockout')) ?? '{}');
+    expect(saved['alarm_control_panel.flat']).toEqual({ failures: 1, lockedUntil: null });
+  });
+});
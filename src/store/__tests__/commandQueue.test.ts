@@ -0,0 +1,136 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { HaServiceError, HaUnreachableError } from '../../api/haErrors';
+import type { UIDevice } from '../../models/device';
+import { handleDeviceCommand, runDeviceCommand } from '../../utils/haCommands';
+import { enqueueCommand, getQueuedCommands, replayCommandQueue } from '../commandQueue';
+import { diffDevice } from '../deviceEvents';
+import { showToast } from '../toastStore';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../../utils/haCommands', () => ({
+  handleDeviceCommand: jest.fn(),
+  runDeviceCommand: jest.fn(),
+}));
+jest.mock('../toastStore', () => ({ showToast: jest.fn() }));
+
+const MINUTE_MS = 60 * 1000;
+const ha = { baseUrl: 'http://hub.test', longLivedToken: 'token' };
+
+function device(entityId: string): UIDevice {
+  return {
+    entityId,
+    deviceId: null,
+    name: entityId,
+    state: 'off',
+    area: 'Hall',
+    label: 'Light',
+    domain: entityId.split('.')[0],
+    attributes: {},
+  };
+}
+
+const sentCommands = () =>
+  jest.mocked(handleDeviceCommand).mock.calls.map(([params]) => params.command);
+
+describe('command queue', () => {
+  let now = 1_000_000;
+  let userId = 100;
+
+  beforeEach(() => {
+    now += 24 * 60 * MINUTE_MS;
+    // Each test gets a queue no earlier test has loaded into memory.
+    userId += 1;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    jest.mocked(handleDeviceCommand).mockReset().mockResolvedValue(undefined);
+    jest.mocked(runDeviceCommand).mockReset().mockResolvedValue(undefined);
+    jest.mocked(showToast).mockReset();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('saves queued commands and replaces a newer value for the same setting', async () => {
+    await enqueueCommand(userId, device('light.hall'), 'light/set_brightness', 20);
+    await enqueueCommand(userId, device('light.hall'), 'light/set_brightness', 60);
+    await enqueueCommand(userId, device('cover.hall'), 'blind/open');
+
+    const stored = JSON.parse((await AsyncStorage.getItem(`dinodia_command_queue_${userId}`))!);
+    expect(stored.map((item: { command: string; value?: number }) => [item.command, item.value]))
+      .toEqual([
+        ['light/set_brightness', 60],
+        ['blind/open', undefined],
+      ]);
+  });
+
+  it('refuses commands that are not safe to send later', async () => {
+    await expect(enqueueCommand(userId, device('lock.front'), 'lock/unlock')).rejects.toThrow(
+      'cannot be queued'
+    );
+  });
+
+  it('replays in the order the commands were made', async () => {
+    await enqueueCommand(userId, device('cover.hall'), 'blind/open');
+    now += 1000;
+    await enqueueCommand(userId, device('light.hall'), 'light/set_brightness', 40);
+
+    expect(await replayCommandQueue(userId, ha)).toBe(2);
+    expect(sentCommands()).toEqual(['blind/open', 'light/set_brightness']);
+    expect(getQueuedCommands(userId)).toEqual([]);
+  });
+
+  it('drops expired commands instead of sending them', async () => {
+    await enqueueCommand(userId, device('light.hall'), 'light/set_brightness', 40);
+    await enqueueCommand(userId, device('cover.hall'), 'blind/open');
+    now += 30 * MINUTE_MS;
+
+    expect(await replayCommandQueue(userId, ha)).toBe(1);
+    expect(sentCommands()).toEqual(['blind/open']);
+    expect(showToast).toHaveBeenCalledWith(expect.stringContaining('1 queued action expired'));
+  });
+
+  it('drops a command the hub rejects and carries on with the rest', async () => {
+    await enqueueCommand(userId, device('light.hall'), 'light/set_brightness', 40);
+    await enqueueCommand(userId, device('cover.hall'), 'blind/open');
+    jest.mocked(handleDeviceCommand).mockRejectedValueOnce(new HaServiceError('Bad value'));
+
+    expect(await replayCommandQueue(userId, ha)).toBe(1);
+    expect(sentCommands()).toEqual(['light/set_brightness', 'blind/open']);
+    expect(getQueuedCommands(userId)).toEqual([]);
+    expect(showToast).toHaveBeenCalledWith(expect.stringContaining('was dropped'), 'error');
+  });
+
+  it('keeps everything queued when the hub goes away again', async () => {
+    await enqueueCommand(userId, device('light.hall'), 'light/set_brightness', 40);
+    await enqueueCommand(userId, device('cover.hall'), 'blind/open');
+    jest.mocked(handleDeviceCommand).mockRejectedValueOnce(new HaUnreachableError('Offline'));
+
+    expect(await replayCommandQueue(userId, ha)).toBe(0);
+    expect(getQueuedCommands(userId).map((item) => item.command)).toEqual([
+      'light/set_brightness',
+      'blind/open',
+    ]);
+  });
+
+  it('replays known devices with a prediction and marks the rest as this phone', async () => {
+    const hall = device('light.hall');
+    await enqueueCommand(userId, hall, 'light/set_brightness', 40);
+    await enqueueCommand(userId, device('cover.porch'), 'blind/open');
+
+    await replayCommandQueue(userId, ha, (entityId) => (entityId === hall.entityId ? hall : null));
+
+    expect(runDeviceCommand).toHaveBeenCalledWith({
+      ha,
+      device: hall,
+      command: 'light/set_brightness',
+      value: 40,
+    });
+    expect(sentCommands()).toEqual(['blind/open']);
+    const porch = device('cover.porch');
+    const live = { source: 'live' as const, haUserId: null };
+    const [opened] = diffDevice(porch, { ...porch, state: 'on' }, live);
+    expect(opened.fromThisDevice).toBe(true);
+  });
+});
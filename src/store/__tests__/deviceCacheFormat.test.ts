@@ -0,0 +1,85 @@
+import type { HaConnection } from '../../models/haConnection';
+import {
+  DEVICE_CACHE_VERSION,
+  getDeviceCacheScope,
+  isScopeCompatible,
+  migrateCacheEntry,
+} from '../deviceCacheFormat';
+
+const hub: HaConnection = {
+  id: 7,
+  baseUrl: 'http://192.168.1.10:8123/',
+  cloudUrl: null,
+  haUsername: 'owner',
+  haPassword: 'secret',
+  longLivedToken: 'token-a',
+  ownerId: 1,
+};
+
+describe('getDeviceCacheScope', () => {
+  it('ties the scope to the hub, its normalized URL and a token fingerprint', () => {
+    const scope = getDeviceCacheScope(hub, 'home');
+    expect(scope).toMatchObject({ haConnectionId: 7, url: 'http://192.168.1.10:8123' });
+    expect(scope?.tokenHash).toHaveLength(16);
+    expect(scope?.tokenHash).not.toContain('token-a');
+  });
+
+  it('is null when the mode has no URL', () => {
+    expect(getDeviceCacheScope(hub, 'cloud')).toBeNull();
+  });
+});
+
+describe('isScopeCompatible', () => {
+  const scope = getDeviceCacheScope(hub, 'home');
+
+  it('accepts anything while the hub is not known yet', () => {
+    expect(isScopeCompatible(null, undefined)).toBe(true);
+    expect(isScopeCompatible(scope, undefined)).toBe(true);
+  });
+
+  it('accepts the same hub settings', () => {
+    expect(isScopeCompatible(scope, getDeviceCacheScope({ ...hub }, 'home'))).toBe(true);
+  });
+
+  it('rejects a snapshot from another hub, URL or token', () => {
+    expect(isScopeCompatible(scope, getDeviceCacheScope({ ...hub, id: 8 }, 'home'))).toBe(false);
+    const moved = getDeviceCacheScope({ ...hub, baseUrl: 'http://10.0.0.2:8123' }, 'home');
+    expect(isScopeCompatible(scope, moved)).toBe(false);
+    const rotated = getDeviceCacheScope({ ...hub, longLivedToken: 'token-b' }, 'home');
+    expect(isScopeCompatible(scope, rotated)).toBe(false);
+  });
+
+  it('only matches a hub-less snapshot with a hub-less expectation', () => {
+    expect(isScopeCompatible(null, null)).toBe(true);
+    expect(isScopeCompatible(null, scope)).toBe(false);
+    expect(isScopeCompatible(scope, null)).toBe(false);
+  });
+});
+
+describe('migrateCacheEntry', () => {
+  const current = {
+    version: DEVICE_CACHE_VERSION,
+    scope: getDeviceCacheScope(hub, 'home'),
+    devices: [],
+    updatedAt: 1000,
+  };
+
+  it('returns current entries as they are', () => {
+    expect(migrateCacheEntry(current)).toEqual(current);
+  });
+
+  it('discards unversioned entries, which do not say which hub they came from', () => {
+    expect(migrateCacheEntry({ devices: [], updatedAt: 1000 })).toBeNull();
+  });
+
+  it('discards entries written by a newer build', () => {
+    expect(migrateCacheEntry({ ...current, version: DEVICE_CACHE_VERSION + 1 })).toBeNull();
+  });
+
+  it('discards anything that is not a readable entry', () => {
+    expect(migrateCacheEntry(null)).toBeNull();
+    expect(migrateCacheEntry('devices')).toBeNull();
+    expect(migrateCacheEntry({ ...current, devices: 'none' })).toBeNull();
+    expect(migrateCacheEntry({ ...current, updatedAt: undefined })).toBeNull();
+  });
+});
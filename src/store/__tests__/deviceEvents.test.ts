@@ -0,0 +1,90 @@
+import type { UIDevice } from '../../models/device';
+import { diffDevice, diffSnapshots, noteLocalCommand } from '../deviceEvents';
+
+const LIVE = { source: 'live' as const, haUserId: null };
+const NOW = 5_000_000;
+
+function device(entityId: string, state: string, attributes: Record<string, unknown> = {}) {
+  const domain = entityId.split('.')[0];
+  const ui: UIDevice = {
+    entityId,
+    deviceId: null,
+    name: entityId,
+    state,
+    area: 'Hall',
+    label: null,
+    domain,
+    attributes,
+  };
+  return ui;
+}
+
+describe('diffDevice', () => {
+  it('reports on/off transitions and nothing for unchanged states', () => {
+    const off = device('light.hall', 'off');
+    const on = device('light.hall', 'on');
+    expect(diffDevice(off, on, LIVE, NOW).map((e) => e.type)).toEqual(['device_turned_on']);
+    expect(diffDevice(on, off, LIVE, NOW).map((e) => e.type)).toEqual(['device_turned_off']);
+    expect(diffDevice(on, { ...on, attributes: { brightness: 10 } }, LIVE, NOW)).toEqual([]);
+  });
+
+  it('reports devices going offline and coming back', () => {
+    const on = device('switch.heater', 'on');
+    const gone = device('switch.heater', 'unavailable');
+    expect(diffDevice(on, gone, LIVE, NOW)[0].type).toBe('became_unavailable');
+    expect(diffDevice(gone, on, LIVE, NOW)[0].type).toBe('became_available');
+  });
+
+  it('reports a doorbell ring rather than it turning on', () => {
+    const attrs = { device_class: 'doorbell' };
+    const idle = device('binary_sensor.door', 'off', attrs);
+    const ringing = device('binary_sensor.door', 'on', attrs);
+    expect(diffDevice(idle, ringing, LIVE, NOW).map((e) => e.type)).toEqual(['doorbell_pressed']);
+    expect(diffDevice(ringing, idle, LIVE, NOW)).toEqual([]);
+  });
+
+  it('reports a sensor crossing its threshold in either direction', () => {
+    const attrs = { device_class: 'battery', unit_of_measurement: '%' };
+    const ok = device('sensor.lock_battery', '25', attrs);
+    const low = device('sensor.lock_battery', '15', attrs);
+    const [dropped] = diffDevice(ok, low, LIVE, NOW);
+    expect(dropped.type).toBe('sensor_crossed_threshold');
+    expect(dropped.threshold).toMatchObject({ alertWhen: 'below', breached: true });
+    expect(diffDevice(low, ok, LIVE, NOW)[0].threshold?.breached).toBe(false);
+    expect(diffDevice(low, { ...low, state: '10' }, LIVE, NOW)).toEqual([]);
+  });
+
+  it('marks changes that follow a command from this phone', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    noteLocalCommand('light.porch');
+    jest.restoreAllMocks();
+    const off = device('light.porch', 'off');
+    const on = device('light.porch', 'on');
+    expect(diffDevice(off, on, LIVE, NOW + 1000)[0].fromThisDevice).toBe(true);
+    expect(diffDevice(off, on, LIVE, NOW + 60 * 1000)[0].fromThisDevice).toBe(false);
+  });
+});
+
+describe('diffSnapshots', () => {
+  it('only diffs devices present in both snapshots', () => {
+    const kitchen = device('light.kitchen', 'off');
+    const hall = device('light.hall', 'off');
+    const events = diffSnapshots(
+      [kitchen, hall],
+      [{ ...kitchen, state: 'on' }, device('light.new', 'on')],
+      { source: 'snapshot', haUserId: null },
+      NOW
+    );
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: 'device_turned_on',
+      entityId: 'light.kitchen',
+      source: 'snapshot',
+    });
+  });
+
+  it('skips devices whose object did not change', () => {
+    const kitchen = device('light.kitchen', 'on');
+    expect(diffSnapshots([kitchen], [kitchen], LIVE, NOW)).toEqual([]);
+  });
+});
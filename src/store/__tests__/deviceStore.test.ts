@@ -0,0 +1,189 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import React from 'react';
+import TestRenderer, { act } from 'react-test-renderer';
+import { fetchDeviceSnapshotForUser } from '../../api/dinodia';
+import { getDevicesWithMetadata } from '../../api/ha';
+import { getEntityMetadata } from '../../api/haRegistry';
+import type { HaConnection } from '../../models/haConnection';
+import type { UIDevice } from '../../models/device';
+import {
+  canShowStaleDevices,
+  MAX_STALE_DATA_AGE_MS,
+  useAreaNames,
+  useDevices,
+  useDevicesInArea,
+} from '../deviceStore';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock')
+);
+jest.mock('../../api/dinodia', () => ({ fetchDeviceSnapshotForUser: jest.fn() }));
+jest.mock('../../api/haRegistry', () => ({
+  getEntityMetadata: jest.fn(),
+  watchRegistryUpdates: jest.fn(() => () => undefined),
+}));
+
+const hub: HaConnection = {
+  id: 3,
+  baseUrl: 'http://hub.test',
+  cloudUrl: null,
+  haUsername: 'owner',
+  haPassword: 'secret',
+  longLivedToken: 'token',
+  ownerId: 1,
+};
+
+// Stands in for dinodia.ts: reads the hub through ha.ts and keeps what has an area, as for tenants.
+async function tenantSnapshot() {
+  const enriched = await getDevicesWithMetadata({ baseUrl: hub.baseUrl, longLivedToken: 'token' });
+  const devices: UIDevice[] = enriched
+    .filter((d) => d.areaName !== null)
+    .map((d) => ({ ...d, area: d.areaName, label: d.labels[0] ?? null }));
+  return { devices, ha: null, haConnection: hub };
+}
+
+function respond(status: number, body: unknown) {
+  return Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  } as Response);
+}
+
+function useProbe(userId: number, connection: HaConnection) {
+  return {
+    ...useDevices(userId, 'home', { connection }),
+    devices: useDevicesInArea(userId, 'home', null),
+    areaNames: useAreaNames(userId, 'home'),
+  };
+}
+
+async function renderDevices(userId: number, connection = hub) {
+  let result: ReturnType<typeof useProbe> | null = null;
+  let first: ReturnType<typeof useProbe> | null = null;
+  function Probe() {
+    result = useProbe(userId, connection);
+    first ??= result;
+    return null;
+  }
+  let renderer: TestRenderer.ReactTestRenderer | null = null;
+  await act(async () => {
+    renderer = TestRenderer.create(React.createElement(Probe));
+  });
+  return {
+    current: () => result!,
+    first: () => first!,
+    unmount: () => act(() => renderer!.unmount()),
+  };
+}
+
+describe('useDevices', () => {
+  let templateStatus = 200;
+  let kitchenState = 'on';
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    templateStatus = 200;
+    kitchenState = 'on';
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.mocked(getEntityMetadata).mockRejectedValue(new Error('WebSocket blocked'));
+    jest.mocked(fetchDeviceSnapshotForUser).mockImplementation(tenantSnapshot);
+    global.fetch = jest.fn((url: string) =>
+      url.endsWith('/api/template')
+        ? respond(templateStatus, [
+            { entity_id: 'light.kitchen', area_name: 'Kitchen', device_id: null, labels: [] },
+          ])
+        : respond(200, [{ entity_id: 'light.kitchen', state: kitchenState, attributes: {} }])
+    ) as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('keeps the last snapshot when neither metadata source answers', async () => {
+    const hook = await renderDevices(1);
+    expect(hook.current().devices.map((d) => d.entityId)).toEqual(['light.kitchen']);
+    const saved = await AsyncStorage.getItem('dinodia_devices_1_home');
+
+    templateStatus = 500;
+    await act(async () => {
+      await hook.current().refreshDevices();
+    });
+
+    expect(hook.current().errorKind).toBe('service');
+    expect(hook.current().stale).toBe(true);
+    expect(hook.current().devices.map((d) => d.entityId)).toEqual(['light.kitchen']);
+    expect(await AsyncStorage.getItem('dinodia_devices_1_home')).toBe(saved);
+    await hook.unmount();
+  });
+
+  it('keeps the area list as it was when only device states change', async () => {
+    const hook = await renderDevices(2);
+    const areas = hook.current().areaNames;
+    expect(areas).toEqual(['Kitchen']);
+
+    kitchenState = 'off';
+    await act(async () => {
+      await hook.current().refreshDevices();
+    });
+
+    expect(hook.current().devices[0].state).toBe('off');
+    expect(hook.current().areaNames).toBe(areas);
+    await hook.unmount();
+  });
+
+  it('takes the snapshot down once it is too old, without another refresh', async () => {
+    jest.useFakeTimers();
+    const hook = await renderDevices(3);
+    templateStatus = 500;
+    await act(async () => {
+      await hook.current().refreshDevices();
+    });
+    expect(hook.current().stale).toBe(true);
+
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(MAX_STALE_DATA_AGE_MS + 1000);
+    });
+
+    expect(hook.current().devices).toEqual([]);
+    expect(hook.current().hasDevices).toBe(false);
+    expect(hook.current().stale).toBe(false);
+    await hook.unmount();
+  });
+
+  it("doesn't start from another hub's snapshot", async () => {
+    const before = await renderDevices(4);
+    expect(before.current().hasDevices).toBe(true);
+    await before.unmount();
+
+    const otherHub = { ...hub, id: 9, baseUrl: 'http://other-hub.test' };
+    const after = await renderDevices(4, otherHub);
+    expect(after.first().hasDevices).toBe(false);
+    expect(after.first().lastUpdated).toBeNull();
+    await after.unmount();
+  });
+});
+
+describe('canShowStaleDevices', () => {
+  const now = 10 * MAX_STALE_DATA_AGE_MS;
+
+  it('shows a snapshot for up to 30 minutes after a failed refresh', () => {
+    expect(canShowStaleDevices(now - MAX_STALE_DATA_AGE_MS, 'unreachable', now)).toBe(true);
+    expect(canShowStaleDevices(now - MAX_STALE_DATA_AGE_MS - 1, 'unreachable', now)).toBe(false);
+  });
+
+  it('never shows a snapshot once the hub rejects the token', () => {
+    expect(canShowStaleDevices(now, 'auth', now)).toBe(false);
+  });
+
+  it('has nothing to show without a snapshot', () => {
+    expect(canShowStaleDevices(null, 'service', now)).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+import type { UIDevice } from '../../models/device';
+import {
+  clearEntities,
+  getEntity,
+  patchEntity,
+  replaceEntities,
+  subscribeToEntity,
+  subscribeToEntityList,
+} from '../entityStore';
+
+const SCOPE = 'test_scope';
+
+function device(entityId: string, overrides: Partial<UIDevice> = {}): UIDevice {
+  return {
+    entityId,
+    deviceId: null,
+    name: entityId,
+    state: 'off',
+    area: 'Kitchen',
+    label: 'Light',
+    domain: entityId.split('.')[0],
+    attributes: { brightness: 0 },
+    ...overrides,
+  };
+}
+
+describe('replaceEntities', () => {
+  afterEach(() => {
+    clearEntities(SCOPE);
+  });
+
+  it('keeps the same list and objects when nothing visible changed', () => {
+    const first = replaceEntities(SCOPE, [device('light.a'), device('light.b')]);
+    const second = replaceEntities(SCOPE, [device('light.a'), device('light.b')]);
+    expect(second).toBe(first);
+    expect(getEntity(SCOPE, 'light.a')).toBe(first[0]);
+  });
+
+  it('replaces only the entity that changed and tells only its subscribers', () => {
+    const first = replaceEntities(SCOPE, [device('light.a'), device('light.b')]);
+    const onA = jest.fn();
+    const onB = jest.fn();
+    const onList = jest.fn();
+    subscribeToEntity(SCOPE, 'light.a', onA);
+    subscribeToEntity(SCOPE, 'light.b', onB);
+    subscribeToEntityList(SCOPE, onList);
+
+    const next = replaceEntities(SCOPE, [
+      device('light.a', { state: 'on', attributes: { brightness: 200 } }),
+      device('light.b'),
+    ]);
+
+    expect(next).not.toBe(first);
+    expect(next[0]).not.toBe(first[0]);
+    expect(next[1]).toBe(first[1]);
+    expect(onA).toHaveBeenCalledTimes(1);
+    expect(onB).not.toHaveBeenCalled();
+    expect(onList).toHaveBeenCalledTimes(1);
+  });
+
+  it('compares attributes by value', () => {
+    const first = replaceEntities(SCOPE, [device('light.a', { attributes: { rgb: [1, 2, 3] } })]);
+    const second = replaceEntities(SCOPE, [device('light.a', { attributes: { rgb: [1, 2, 3] } })]);
+    expect(second).toBe(first);
+  });
+
+  it('notifies subscribers of removed entities', () => {
+    replaceEntities(SCOPE, [device('light.a'), device('light.b')]);
+    const onB = jest.fn();
+    subscribeToEntity(SCOPE, 'light.b', onB);
+    const next = replaceEntities(SCOPE, [device('light.a')]);
+    expect(next).toHaveLength(1);
+    expect(getEntity(SCOPE, 'light.b')).toBeNull();
+    expect(onB).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('patchEntity', () => {
+  afterEach(() => {
+    clearEntities(SCOPE);
+  });
+
+  it('ignores entities that are not shown yet', () => {
+    replaceEntities(SCOPE, [device('light.a')]);
+    expect(patchEntity(SCOPE, 'light.new', { state: 'on' })).toBeNull();
+  });
+
+  it('ignores updates that change nothing visible', () => {
+    replaceEntities(SCOPE, [device('light.a')]);
+    const same = patchEntity(SCOPE, 'light.a', { state: 'off', attributes: { brightness: 0 } });
+    expect(same).toBeNull();
+  });
+
+  it('swaps in the updated entity and leaves the others alone', () => {
+    const first = replaceEntities(SCOPE, [device('light.a'), device('light.b')]);
+    const next = patchEntity(SCOPE, 'light.a', { state: 'on', attributes: { brightness: 80 } });
+    expect(next?.[0]).toMatchObject({ entityId: 'light.a', state: 'on' });
+    expect(next?.[1]).toBe(first[1]);
+  });
+
+  it('drops an entity HA reports as removed', () => {
+    replaceEntities(SCOPE, [device('light.a'), device('light.b')]);
+    expect(patchEntity(SCOPE, 'light.a', null)?.map((d) => d.entityId)).toEqual(['light.b']);
+    expect(getEntity(SCOPE, 'light.a')).toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import {
+  getRefreshInterval,
+  noteCommandSent,
+  noteUserActivity,
+  REFRESH_PROFILES,
+  subscribeToRefreshActivity,
+} from '../refreshScheduler';
+
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock')
+);
+
+const phone = REFRESH_PROFILES.phone;
+const wallPanel = REFRESH_PROFILES.wallPanel;
+
+describe('getRefreshInterval', () => {
+  let now = 10_000_000;
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    noteUserActivity();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    now += 24 * 60 * 60 * 1000;
+  });
+
+  it('uses the base interval while someone is using the app', () => {
+    expect(getRefreshInterval(phone, now + 1000)).toBe(phone.baseIntervalMs);
+  });
+
+  it('boosts right after a command, until the boost window ends', () => {
+    noteCommandSent();
+    expect(getRefreshInterval(phone, now + 1000)).toBe(phone.boostIntervalMs);
+    expect(getRefreshInterval(phone, now + phone.boostWindowMs)).toBe(phone.baseIntervalMs);
+  });
+
+  it('slows down once the phone has been left alone', () => {
+    expect(getRefreshInterval(phone, now + phone.idleAfterMs + 1)).toBe(phone.idleIntervalMs);
+  });
+
+  it('never goes idle on a wall panel', () => {
+    const muchLater = now + 12 * 60 * 60 * 1000;
+    expect(getRefreshInterval(wallPanel, muchLater)).toBe(wallPanel.baseIntervalMs);
+  });
+
+  it('stretches intervals while the connection is metered', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeToRefreshActivity(listener);
+    const onNetworkChange = jest.mocked(NetInfo.addEventListener).mock.calls[0][0];
+    const network = (isConnectionExpensive: boolean) =>
+      ({ type: 'wifi', details: { isConnectionExpensive } } as unknown as NetInfoState);
+
+    onNetworkChange(network(true));
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(getRefreshInterval(phone, now + 1000)).toBe(
+      phone.baseIntervalMs * phone.meteredMultiplier
+    );
+    expect(getRefreshInterval(wallPanel, now + 1000)).toBe(wallPanel.baseIntervalMs);
+
+    onNetworkChange(network(false));
+    expect(getRefreshInterval(phone, now + 1000)).toBe(phone.baseIntervalMs);
+    unsubscribe();
+  });
+});
@@ -0,0 +1,110 @@
+// src/store/activityToasts.ts
+import { useEffect, useRef } from 'react';
+import type { HaConnectionLike } from '../api/ha';
+import { getHaPeople, getPersonName, HaPeople } from '../api/haPeople';
+import { getBinarySensorStatus, isHazardActive } from '../utils/binarySensors';
+import { getGroupLabel } from '../utils/deviceLabels';
+import { formatSensorState, UnitPreferences } from '../utils/unitFormat';
+import { DeviceEvent, subscribeToDeviceEvents } from './deviceEvents';
+import { showToast, ToastTone } from './toastStore';
+import { useUnitPreferences } from './unitPreferences';
+
+// Scenes and automations change many devices at once; gather them into one toast.
+const BURST_WINDOW_MS = 600;
+const MAX_TOASTS_PER_BURST = 3;
+
+type ActivityMessage = { text: string; tone: ToastTone };
+
+function describeEvent(event: DeviceEvent, units: UnitPreferences): ActivityMessage | null {
+  const { device } = event;
+  const name = device.name;
+  switch (event.type) {
+    case 'doorbell_pressed':
+      return { text: `Someone is at the door (${name})`, tone: 'info' };
+    case 'became_unavailable':
+      return { text: `${name} went offline`, tone: 'error' };
+    case 'sensor_crossed_threshold': {
+      if (!event.threshold?.breached) return null;
+      const level = event.threshold.alertWhen === 'above' ? 'high' : 'low';
+      return { text: `${name} is ${level} (${formatSensorState(device, units)})`, tone: 'error' };
+    }
+    case 'device_turned_on':
+    case 'device_turned_off': {
+      const label = getGroupLabel(device);
+      // Motion comes and goes all day; nobody wants a toast for each.
+      if (label === 'Motion Sensor') return null;
+      if (label === 'Safety') {
+        const status = getBinarySensorStatus(device);
+        return { text: `${name}: ${status}`, tone: isHazardActive(device) ? 'error' : 'success' };
+      }
+      if (label === 'Contact') {
+        const change = event.type === 'device_turned_on' ? 'opened' : 'closed';
+        return { text: `${name} ${change}`, tone: 'info' };
+      }
+      if (device.domain === 'binary_sensor') return null;
+      const action = event.type === 'device_turned_on' ? 'on' : 'off';
+      return { text: `${name} turned ${action}`, tone: 'info' };
+    }
+    default:
+      return null;
+  }
+}
+
+function shouldToast(event: DeviceEvent) {
+  // Snapshot diffs can span a dropped connection or time in the background; too late to be news.
+  return event.source === 'live' && !event.fromThisDevice;
+}
+
+/**
+ * Shows short toasts for changes made elsewhere: "Front door opened",
+ * "Kitchen light turned off by Alex". Changes made from this phone are skipped.
+ */
+export function useDeviceActivityToasts(userId: number, ha: HaConnectionLike | null) {
+  const haRef = useRef(ha);
+  haRef.current = ha;
+  // Readings in toasts use the same units as the cards.
+  const { units } = useUnitPreferences(userId);
+  const unitsRef = useRef(units);
+  unitsRef.current = units;
+
+  useEffect(() => {
+    let pending: { event: DeviceEvent; message: ActivityMessage }[] = [];
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let active = true;
+
+    const flush = async () => {
+      timer = null;
+      let batch = pending;
+      pending = [];
+      // Problems are always shown one by one; routine changes collapse into a count.
+      const routine = batch.filter((item) => item.message.tone !== 'error');
+      if (routine.length > MAX_TOASTS_PER_BURST) {
+        showToast(`${routine.length} devices changed`, 'info');
+        batch = batch.filter((item) => item.message.tone === 'error');
+      }
+      let people: HaPeople | null = null;
+      const connection = haRef.current;
+      if (connection && batch.some((item) => item.event.haUserId)) {
+        people = await getHaPeople(connection).catch(() => null);
+      }
+      if (!active) return;
+      batch.forEach(({ event, message }) => {
+        const person = people ? getPersonName(people, event.haUserId) : null;
+        showToast(person ? `${message.text} by ${person}` : message.text, message.tone);
+      });
+    };
+
+    const unsubscribe = subscribeToDeviceEvents((event) => {
+      if (!shouldToast(event)) return;
+      const message = describeEvent(event, unitsRef.current);
+      if (!message) return;
+      pending.push({ event, message });
+      if (!timer) timer = setTimeout(() => void flush(), BURST_WINDOW_MS);
+    });
+    return () => {
+      active = false;
+      if (timer) clearTimeout(timer);
+      unsubscribe();
+    };
+  }, []);
+}
@@ -0,0 +1,63 @@
+// src/store/alarmLockout.ts
+import { loadJson, saveJson } from '../utils/storage';
+
+type LockoutEntry = {
+  failures: number;
+  lockedUntil: number | null;
+};
+
+const LOCKOUT_KEY = 'dinodia_alarm_lockout';
+// After this many wrong codes in a row the keypad is blocked for a while,
+// doubling each time it happens again.
+const MAX_FAILED_ATTEMPTS = 3;
+const BASE_LOCKOUT_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 30 * 60 * 1000;
+
+let entries: Record<string, LockoutEntry> | null = null;
+let loadPromise: Promise<Record<string, LockoutEntry>> | null = null;
+
+// Persisted so closing and reopening the app doesn't reset the count.
+async function load(): Promise<Record<string, LockoutEntry>> {
+  if (entries) return entries;
+  if (!loadPromise) {
+    loadPromise = loadJson<Record<string, LockoutEntry>>(LOCKOUT_KEY)
+      .catch(() => null)
+      .then((stored) => {
+        entries = entries ?? stored ?? {};
+        return entries;
+      });
+  }
+  return loadPromise;
+}
+
+function persist() {
+  if (entries) void saveJson(LOCKOUT_KEY, entries).catch(() => undefined);
+}
+
+/** Milliseconds until the keypad unlocks again, or 0 when attempts are allowed. */
+export async function getDisarmLockoutRemaining(entityId: string): Promise<number> {
+  const entry = (await load())[entityId];
+  if (!entry?.lockedUntil) return 0;
+  return Math.max(0, entry.lockedUntil - Date.now());
+}
+
+export async function recordFailedDisarm(entityId: string): Promise<number> {
+  const all = await load();
+  const entry = all[entityId] ?? { failures: 0, lockedUntil: null };
+  entry.failures += 1;
+  if (entry.failures >= MAX_FAILED_ATTEMPTS && entry.failures % MAX_FAILED_ATTEMPTS === 0) {
+    const rounds = entry.failures / MAX_FAILED_ATTEMPTS;
+    const duration = Math.min(MAX_LOCKOUT_MS, BASE_LOCKOUT_MS * 2 ** (rounds - 1));
+    entry.lockedUntil = Date.now() + duration;
+  }
+  all[entityId] = entry;
+  persist();
+  return entry.lockedUntil ? Math.max(0, entry.lockedUntil - Date.now()) : 0;
+}
+
+export async function clearFailedDisarms(entityId: string): Promise<void> {
+  const all = await load();
+  if (!all[entityId]) return;
+  delete all[entityId];
+  persist();
+}
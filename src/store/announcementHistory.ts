@@ -0,0 +1,43 @@
+// src/store/announcementHistory.ts
+import { loadJson, saveJson, removeKey } from '../utils/storage';
+
+export type Announcement = {
+  id: string;
+  message: string;
+  engineId: string;
+  areas: string[];
+  speakers: { entityId: string; name: string }[];
+  sentAt: number;
+};
+
+const HISTORY_KEY_PREFIX = 'dinodia_announcements_';
+const MAX_HISTORY = 50;
+
+function historyKey(userId: number) {
+  return `${HISTORY_KEY_PREFIX}${userId}`;
+}
+
+/** Newest first. */
+export async function getAnnouncementHistory(userId: number): Promise<Announcement[]> {
+  const stored = await loadJson<Announcement[]>(historyKey(userId)).catch(() => null);
+  return Array.isArray(stored) ? stored : [];
+}
+
+export async function recordAnnouncement(
+  userId: number,
+  entry: Omit<Announcement, 'id' | 'sentAt'>
+): Promise<Announcement[]> {
+  const sentAt = Date.now();
+  const item: Announcement = {
+    ...entry,
+    id: `${sentAt}-${Math.random().toString(36).slice(2, 8)}`,
+    sentAt,
+  };
+  const next = [item, ...(await getAnnouncementHistory(userId))].slice(0, MAX_HISTORY);
+  await saveJson(historyKey(userId), next).catch(() => undefined);
+  return next;
+}
+
+export async function clearAnnouncementHistory(userId: number): Promise<void> {
+  await removeKey(historyKey(userId)).catch(() => undefined);
+}
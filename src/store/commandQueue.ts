@@ -0,0 +1,278 @@
+// src/store/commandQueue.ts
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import type { UIDevice } from '../models/device';
+import { HaConnectionLike, probeHaReachability } from '../api/ha';
+import { getHaErrorKind } from '../api/haErrors';
+import { getCommandDefinition, CommandValue } from '../utils/commandRegistry';
+import { handleDeviceCommand, runDeviceCommand } from '../utils/haCommands';
+import { loadJson, saveJson, removeKey } from '../utils/storage';
+import { noteLocalCommand } from './deviceEvents';
+import { showToast } from './toastStore';
+
+export type QueuedCommand = {
+  id: string;
+  entityId: string;
+  deviceName: string;
+  command: string;
+  label: string;
+  value?: CommandValue;
+  queuedAt: number;
+  expiresAt: number;
+};
+
+const QUEUE_KEY_PREFIX = 'dinodia_command_queue_';
+// How often to check whether the hub is back while something is waiting.
+const REPLAY_PROBE_INTERVAL_MS = 15000;
+
+// Looks up the device a queued command is for, so replays show their predicted result.
+type DeviceLookup = (entityId: string) => UIDevice | null;
+
+const queues = new Map<number, QueuedCommand[]>();
+const loading = new Map<number, Promise<QueuedCommand[]>>();
+const listeners = new Set<(userId: number) => void>();
+const replaying = new Set<number>();
+
+function queueKey(userId: number) {
+  return `${QUEUE_KEY_PREFIX}${userId}`;
+}
+
+function notify(userId: number) {
+  listeners.forEach((listener) => listener(userId));
+}
+
+function dropExpired(items: QueuedCommand[], now = Date.now()) {
+  return items.filter((item) => item.expiresAt > now);
+}
+
+async function loadQueue(userId: number): Promise<QueuedCommand[]> {
+  const cached = queues.get(userId);
+  if (cached) return cached;
+  let pending = loading.get(userId);
+  if (!pending) {
+    pending = loadJson<QueuedCommand[]>(queueKey(userId))
+      .catch(() => null)
+      .then((stored) => {
+        const items = dropExpired(Array.isArray(stored) ? stored : []);
+        if (!queues.has(userId)) queues.set(userId, items);
+        return queues.get(userId)!;
+      })
+      .finally(() => {
+        loading.delete(userId);
+      });
+    loading.set(userId, pending);
+  }
+  return pending;
+}
+
+async function saveQueue(userId: number, items: QueuedCommand[]) {
+  queues.set(userId, items);
+  notify(userId);
+  if (items.length === 0) {
+    await removeKey(queueKey(userId)).catch(() => undefined);
+  } else {
+    await saveJson(queueKey(userId), items).catch(() => undefined);
+  }
+}
+
+export function isCommandQueueable(command: string): boolean {
+  return Boolean(getCommandDefinition(command)?.queueTtlMs);
+}
+
+export function getQueuedCommands(userId: number): QueuedCommand[] {
+  return queues.get(userId) ?? [];
+}
+
+export function subscribeToCommandQueue(listener: (userId: number) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Holds a command until the hub answers again. A newer value for the same
+ * setting (e.g. brightness) replaces the queued one rather than stacking.
+ */
+export async function enqueueCommand(
+  userId: number,
+  device: Pick<UIDevice, 'entityId' | 'name'>,
+  command: string,
+  value?: CommandValue
+): Promise<void> {
+  const def = getCommandDefinition(command);
+  if (!def?.queueTtlMs) {
+    throw new Error(`${def?.label ?? command} cannot be queued.`);
+  }
+  const now = Date.now();
+  const items = dropExpired(await loadQueue(userId), now).filter(
+    (item) => !(def.param && item.entityId === device.entityId && item.command === command)
+  );
+  items.push({
+    id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+    entityId: device.entityId,
+    deviceName: device.name,
+    command,
+    label: def.label,
+    value,
+    queuedAt: now,
+    expiresAt: now + def.queueTtlMs,
+  });
+  await saveQueue(userId, items);
+}
+
+// Fire-and-forget wrapper for the "Send when back" buttons.
+export function queueCommandForLater(
+  userId: number,
+  device: Pick<UIDevice, 'entityId' | 'name'>,
+  command: string,
+  value?: CommandValue
+): void {
+  enqueueCommand(userId, device, command, value)
+    .then(() => showToast(`Queued for ${device.name}. We'll send it when your Dinodia Hub is back.`))
+    .catch((err) => showToast(err instanceof Error ? err.message : String(err), 'error'));
+}
+
+export async function cancelQueuedCommand(userId: number, id: string): Promise<void> {
+  const items = await loadQueue(userId);
+  await saveQueue(userId, items.filter((item) => item.id !== id));
+}
+
+export async function clearCommandQueue(userId: number): Promise<void> {
+  queues.delete(userId);
+  notify(userId);
+  await removeKey(queueKey(userId)).catch(() => undefined);
+}
+
+/**
+ * Sends queued commands in the order they were made. Expired entries are
+ * dropped, a command the hub rejects is dropped with a toast, and if the hub
+ * goes away again the rest stay queued for the next attempt.
+ */
+export async function replayCommandQueue(
+  userId: number,
+  ha: HaConnectionLike,
+  getDevice?: DeviceLookup
+): Promise<number> {
+  if (replaying.has(userId)) return 0;
+  replaying.add(userId);
+  let sent = 0;
+  try {
+    let expired = 0;
+    for (;;) {
+      const [next] = await loadQueue(userId);
+      if (!next) break;
+
+      const remove = () =>
+        saveQueue(userId, getQueuedCommands(userId).filter((item) => item.id !== next.id));
+      if (next.expiresAt <= Date.now()) {
+        expired += 1;
+        await remove();
+        continue;
+      }
+      const device = getDevice?.(next.entityId) ?? null;
+      try {
+        if (device) {
+          await runDeviceCommand({ ha, device, command: next.command, value: next.value });
+        } else {
+          // Not loaded right now, so nothing to predict; it's still this phone's change.
+          noteLocalCommand(next.entityId);
+          await handleDeviceCommand({
+            ha,
+            entityId: next.entityId,
+            command: next.command,
+            value: next.value,
+          });
+        }
+        sent += 1;
+        await remove();
+      } catch (err) {
+        // Keep everything when the hub (or its token) is the problem, not the command.
+        const kind = getHaErrorKind(err);
+        if (kind === 'unreachable' || kind === 'timeout' || kind === 'auth') break;
+        await remove();
+        showToast(`${next.deviceName}: ${next.label} could not be sent and was dropped.`, 'error');
+      }
+    }
+    if (sent > 0) {
+      showToast(
+        sent === 1 ? 'Sent 1 queued action.' : `Sent ${sent} queued actions.`,
+        'success'
+      );
+    }
+    if (expired > 0) {
+      showToast(
+        expired === 1
+          ? '1 queued action expired before your Dinodia Hub came back.'
+          : `${expired} queued actions expired before your Dinodia Hub came back.`
+      );
+    }
+  } finally {
+    replaying.delete(userId);
+  }
+  return sent;
+}
+
+export function useCommandQueue(
+  userId: number,
+  ha: HaConnectionLike | null,
+  options: { onReplayed?: () => void; getDevice?: DeviceLookup } = {}
+) {
+  const [queued, setQueued] = useState<QueuedCommand[]>(() => getQueuedCommands(userId));
+  const onReplayedRef = useRef(options.onReplayed);
+  onReplayedRef.current = options.onReplayed;
+  const getDeviceRef = useRef(options.getDevice);
+  getDeviceRef.current = options.getDevice;
+
+  useEffect(() => {
+    let active = true;
+    setQueued(getQueuedCommands(userId));
+    void loadQueue(userId).then((items) => {
+      if (active) setQueued(items);
+    });
+    const unsubscribe = subscribeToCommandQueue((changedUserId) => {
+      if (changedUserId === userId) setQueued(getQueuedCommands(userId));
+    });
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  const hasQueued = queued.length > 0;
+
+  useEffect(() => {
+    if (!ha || !hasQueued) return;
+    let cancelled = false;
+
+    const attempt = async () => {
+      if (AppState.currentState !== 'active') return;
+      const reachable = await probeHaReachability(ha);
+      if (!reachable || cancelled) return;
+      const sent = await replayCommandQueue(userId, ha, (entityId) =>
+        getDeviceRef.current ? getDeviceRef.current(entityId) : null
+      );
+      if (sent > 0 && onReplayedRef.current) onReplayedRef.current();
+    };
+
+    void attempt();
+    const id = setInterval(() => void attempt(), REPLAY_PROBE_INTERVAL_MS);
+    const sub = AppState.addEventListener('change', (state) => {
+      if (state === 'active') void attempt();
+    });
+    return () => {
+      cancelled = true;
+      clearInterval(id);
+      sub.remove();
+    };
+  }, [ha, hasQueued, userId]);
+
+  const cancel = useCallback(
+    (id: string) => {
+      void cancelQueuedCommand(userId, id);
+    },
+    [userId]
+  );
+
+  return { queued, cancel };
+}
@@ -0,0 +1,78 @@
+// src/store/deviceCacheFormat.ts
+import { sha256 } from 'js-sha256';
+import type { HaMode } from '../api/dinodia';
+import { buildHaConnectionLike } from '../api/haRoute';
+import type { UIDevice } from '../models/device';
+import type { HaConnection } from '../models/haConnection';
+
+// Identifies the hub a snapshot was read from. The token is only kept as a
+// short fingerprint so a rotated token also retires the old snapshot.
+export type DeviceCacheScope = {
+  haConnectionId: number;
+  url: string;
+  tokenHash: string;
+};
+
+export type DeviceCacheEntry = {
+  version: number;
+  // Null only while a snapshot has no hub behind it (nothing configured for this mode).
+  scope: DeviceCacheScope | null;
+  devices: UIDevice[];
+  updatedAt: number;
+};
+
+// Bump when the shape of a saved entry changes, and add a step to CACHE_MIGRATIONS.
+export const DEVICE_CACHE_VERSION = 2;
+
+/**
+ * Steps that bring a saved entry from version N to N + 1. Returning null
+ * discards the entry. Entries written before versioning count as version 1.
+ */
+const CACHE_MIGRATIONS: Record<number, (entry: any) => any | null> = {
+  // Version 1 entries don't say which hub they came from, so we can't trust them.
+  1: () => null,
+};
+
+export function getDeviceCacheScope(
+  haConnection: HaConnection,
+  mode: HaMode
+): DeviceCacheScope | null {
+  const ha = buildHaConnectionLike(haConnection, mode);
+  if (!ha) return null;
+  return {
+    haConnectionId: haConnection.id,
+    url: ha.baseUrl,
+    tokenHash: sha256(ha.longLivedToken).slice(0, 16),
+  };
+}
+
+// `expected` is undefined when the caller doesn't know the hub yet; anything goes then.
+export function isScopeCompatible(
+  actual: DeviceCacheScope | null,
+  expected: DeviceCacheScope | null | undefined
+) {
+  if (expected === undefined) return true;
+  if (!actual || !expected) return actual === expected;
+  return (
+    actual.haConnectionId === expected.haConnectionId &&
+    actual.url === expected.url &&
+    actual.tokenHash === expected.tokenHash
+  );
+}
+
+export function migrateCacheEntry(raw: unknown): DeviceCacheEntry | null {
+  if (!raw || typeof raw !== 'object') return null;
+  let entry: any = raw;
+  let version = typeof entry.version === 'number' ? entry.version : 1;
+  // Written by a newer build (e.g. before a downgrade); we can't read it safely.
+  if (version > DEVICE_CACHE_VERSION) return null;
+  while (version < DEVICE_CACHE_VERSION) {
+    const migrate = CACHE_MIGRATIONS[version];
+    entry = migrate ? migrate(entry) : null;
+    if (!entry) return null;
+    version += 1;
+    entry.version = version;
+  }
+  if (!Array.isArray(entry.devices) || typeof entry.updatedAt !== 'number') return null;
+  return entry as DeviceCacheEntry;
+}
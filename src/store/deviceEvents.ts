@@ -0,0 +1,157 @@
+// src/store/deviceEvents.ts
+import type { UIDevice } from '../models/device';
+import { getGroupLabel } from '../utils/deviceLabels';
+
+export type DeviceEventType =
+  | 'device_turned_on'
+  | 'device_turned_off'
+  | 'sensor_crossed_threshold'
+  | 'became_unavailable'
+  | 'became_available'
+  | 'doorbell_pressed';
+
+export type SensorThreshold = {
+  value: number;
+  // Which side of `value` is worth telling someone about.
+  alertWhen: 'above' | 'below';
+};
+
+export type DeviceEvent = {
+  type: DeviceEventType;
+  entityId: string;
+  // State after the change.
+  device: UIDevice;
+  previous: UIDevice;
+  // 'live' events come straight from the hub as they happen. 'snapshot' events
+  // are found by comparing two full refreshes and may be minutes old.
+  source: 'live' | 'snapshot';
+  // The HA user behind the change, when the hub reports one.
+  haUserId: string | null;
+  // Someone sent a command for this entity from this phone moments ago.
+  fromThisDevice: boolean;
+  // Set for sensor_crossed_threshold; `breached` is false when it went back to normal.
+  threshold?: SensorThreshold & { breached: boolean };
+  at: number;
+};
+
+type DiffContext = Pick<DeviceEvent, 'source' | 'haUserId'>;
+
+// Readings worth flagging, keyed by Home Assistant's SensorDeviceClass.
+const SENSOR_THRESHOLDS: Record<string, SensorThreshold> = {
+  battery: { value: 20, alertWhen: 'below' },
+  humidity: { value: 70, alertWhen: 'above' },
+  carbon_dioxide: { value: 1000, alertWhen: 'above' },
+  pm25: { value: 35, alertWhen: 'above' },
+};
+
+// A state change this soon after a command from this phone is taken to be its result.
+const LOCAL_COMMAND_WINDOW_MS = 20000;
+
+const listeners = new Set<(event: DeviceEvent) => void>();
+const localCommands = new Map<string, number>();
+
+function numericState(device: UIDevice): number | null {
+  const value = parseFloat(device.state);
+  return Number.isFinite(value) ? value : null;
+}
+
+function isBreached(value: number, threshold: SensorThreshold) {
+  return threshold.alertWhen === 'above' ? value > threshold.value : value < threshold.value;
+}
+
+function isDoorbell(device: UIDevice) {
+  return device.attributes?.device_class === 'doorbell' || getGroupLabel(device) === 'Doorbell';
+}
+
+function isFromThisDevice(entityId: string, now: number) {
+  const sentAt = localCommands.get(entityId);
+  if (sentAt === undefined) return false;
+  if (now - sentAt <= LOCAL_COMMAND_WINDOW_MS) return true;
+  localCommands.delete(entityId);
+  return false;
+}
+
+function getTransitionType(previous: UIDevice, device: UIDevice): DeviceEventType | null {
+  const before = previous.state;
+  const after = device.state;
+  if (before === after) return null;
+  if (after === 'unavailable') return 'became_unavailable';
+  if (before === 'unavailable') return 'became_available';
+  if (isDoorbell(device)) {
+    // Doorbell `event` entities store the time of the last ring; binary sensors turn on.
+    const rang = device.domain === 'event' ? after !== 'unknown' : after === 'on';
+    return rang ? 'doorbell_pressed' : null;
+  }
+  if (before === 'off' && after === 'on') return 'device_turned_on';
+  if (before === 'on' && after === 'off') return 'device_turned_off';
+  return null;
+}
+
+/** Events for one entity going from `previous` to `device`. */
+export function diffDevice(
+  previous: UIDevice,
+  device: UIDevice,
+  context: DiffContext,
+  now = Date.now()
+): DeviceEvent[] {
+  const base = {
+    entityId: device.entityId,
+    device,
+    previous,
+    ...context,
+    fromThisDevice: isFromThisDevice(device.entityId, now),
+    at: now,
+  };
+  const events: DeviceEvent[] = [];
+  const type = getTransitionType(previous, device);
+  if (type) events.push({ ...base, type });
+
+  const deviceClass = device.attributes?.device_class;
+  const threshold =
+    device.domain === 'sensor' && typeof deviceClass === 'string'
+      ? SENSOR_THRESHOLDS[deviceClass]
+      : undefined;
+  const before = numericState(previous);
+  const after = numericState(device);
+  if (threshold && before !== null && after !== null) {
+    const breached = isBreached(after, threshold);
+    if (breached !== isBreached(before, threshold)) {
+      events.push({
+        ...base,
+        type: 'sensor_crossed_threshold',
+        threshold: { ...threshold, breached },
+      });
+    }
+  }
+  return events;
+}
+
+/** Events between two full snapshots. Devices that appear or disappear aren't transitions. */
+export function diffSnapshots(
+  previous: UIDevice[],
+  next: UIDevice[],
+  context: DiffContext,
+  now = Date.now()
+): DeviceEvent[] {
+  const before = new Map(previous.map((device) => [device.entityId, device]));
+  return next.flatMap((device) => {
+    const old = before.get(device.entityId);
+    return old && old !== device ? diffDevice(old, device, context, now) : [];
+  });
+}
+
+export function emitDeviceEvents(events: DeviceEvent[]) {
+  events.forEach((event) => listeners.forEach((listener) => listener(event)));
+}
+
+/** Marks `entityId` as about to change because of a command sent from this phone. */
+export function noteLocalCommand(entityId: string) {
+  localCommands.set(entityId, Date.now());
+}
+
+export function subscribeToDeviceEvents(listener: (event: DeviceEvent) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -1,38 +1,181 @@
 // src/store/deviceStore.ts
 import { AppState } from 'react-native';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { fetchDevicesForUser, HaMode } from '../api/dinodia';
+import { fetchDeviceSnapshotForUser, HaMode } from '../api/dinodia';
+import { fetchHaState, HaConnectionLike } from '../api/ha';
+import { getHaSocket, HaSocketStatus, HaStateChangedData } from '../api/haWebSocket';
+import { watchRegistryUpdates } from '../api/haRegistry';
+import { getHaErrorKind, HaErrorKind } from '../api/haErrors';
 import type { UIDevice } from '../models/device';
-import { loadJson, saveJson, removeKey } from '../utils/storage';
-
-type DeviceCacheEntry = {
-  devices: UIDevice[];
-  updatedAt: number;
-};
+import type { HaConnection } from '../models/haConnection';
+import { isHazardActive } from '../utils/binarySensors';
+import { listKeys, loadJson, saveJson, removeKey } from '../utils/storage';
+import { applyPredictions, reconcilePredictions, subscribeToPredictions } from './optimisticStore';
+import {
+  getRefreshInterval,
+  REFRESH_PROFILES,
+  RefreshProfile,
+  subscribeToRefreshActivity,
+} from './refreshScheduler';
+import {
+  clearEntities,
+  getEntity,
+  getEntityList,
+  patchEntity,
+  replaceEntities,
+  subscribeToEntity,
+  subscribeToEntityList,
+} from './entityStore';
+import { diffDevice, diffSnapshots, emitDeviceEvents } from './deviceEvents';
+import {
+  DEVICE_CACHE_VERSION,
+  DeviceCacheEntry,
+  DeviceCacheScope,
+  getDeviceCacheScope,
+  isScopeCompatible,
+  migrateCacheEntry,
+} from './deviceCacheFormat';
 
 type RefreshOptions = {
   background?: boolean;
 };
 
+type UseDevicesOptions = {
+  // Called when the hub stops answering on this route, so the session can fail over.
+  onConnectionLost?: () => void;
+  // Polling cadence; see refreshScheduler.
+  profile?: RefreshProfile;
+  // Stops polling while the screen using the devices isn't visible.
+  paused?: boolean;
+  // Entities currently on screen (e.g. an open detail sheet) that should stay fresher than the rest.
+  priorityEntityIds?: string[];
+  // The session's hub; saved snapshots from any other hub are thrown away instead of shown.
+  connection?: HaConnection | null;
+};
+
+// Full refreshes are only a fallback while live updates flow over the WebSocket.
+const LIVE_RESYNC_INTERVAL_MS = 5 * 60 * 1000;
+// Live updates arrive often; batch their writes to disk.
+const LIVE_PERSIST_DELAY_MS = 5000;
+// With priority entities on screen, full snapshots run this many polls apart.
+const PRIORITY_FULL_SYNC_FACTOR = 5;
+// While refreshes fail we keep showing the last good snapshot, up to this age.
+export const MAX_STALE_DATA_AGE_MS = 30 * 60 * 1000;
+
+// AsyncStorage on Android caps a single value at about 2 MB; stay well clear of it.
+const MAX_CACHE_BYTES = 1024 * 1024;
+// Attributes bigger than this (entity pictures, media playlists, forecasts) are
+// dropped from the saved copy; the next refresh brings them back.
+const MAX_SAVED_ATTRIBUTE_BYTES = 2048;
+const CACHE_KEY_PREFIX = 'dinodia_devices_';
+
 const memoryCache = new Map<string, DeviceCacheEntry>();
 const inFlight = new Map<string, Promise<DeviceCacheEntry>>();
-const cacheKey = (userId: number, mode: HaMode) => `dinodia_devices_${userId}_${mode}`;
+const liveConnections = new Map<string, HaConnectionLike>();
+const cacheListeners = new Map<string, Set<(entry: DeviceCacheEntry) => void>>();
+const persistTimers = new Map<string, ReturnType<typeof setTimeout>>();
+// Scopes whose last good snapshot has outlived canShowStaleDevices; every hook hides it.
+const expiredScopes = new Set<string>();
+const expiryListeners = new Set<() => void>();
+const cacheKey = (userId: number, mode: HaMode) => `${CACHE_KEY_PREFIX}${userId}_${mode}`;
+
+function notifyCacheListeners(key: string, entry: DeviceCacheEntry) {
+  reconcilePredictions(entry.devices);
+  cacheListeners.get(key)?.forEach((listener) => listener(entry));
+}
+
+// Routes every snapshot through the entity store so unchanged devices keep their
+// identity, and reports what changed since the previous snapshot from the same hub.
+function setCacheEntry(key: string, entry: DeviceCacheEntry): DeviceCacheEntry {
+  const previous = memoryCache.get(key);
+  const normalized: DeviceCacheEntry = {
+    ...entry,
+    devices: replaceEntities(key, entry.devices),
+  };
+  memoryCache.set(key, normalized);
+  if (previous && isScopeCompatible(previous.scope, normalized.scope)) {
+    emitDeviceEvents(
+      diffSnapshots(previous.devices, normalized.devices, { source: 'snapshot', haUserId: null })
+    );
+  }
+  return normalized;
+}
+
+function setScopeExpired(key: string, expired: boolean) {
+  if (expiredScopes.has(key) === expired) return;
+  if (expired) {
+    expiredScopes.add(key);
+  } else {
+    expiredScopes.delete(key);
+  }
+  expiryListeners.forEach((listener) => listener());
+}
+
+function useScopeExpired(scope: string): boolean {
+  const [expired, setExpired] = useState(() => expiredScopes.has(scope));
+  useEffect(() => {
+    const update = () => setExpired(expiredScopes.has(scope));
+    update();
+    expiryListeners.add(update);
+    return () => {
+      expiryListeners.delete(update);
+    };
+  }, [scope]);
+  return expired;
+}
+
+function subscribeToCache(key: string, listener: (entry: DeviceCacheEntry) => void) {
+  let set = cacheListeners.get(key);
+  if (!set) {
+    set = new Set();
+    cacheListeners.set(key, set);
+  }
+  set.add(listener);
+  return () => {
+    set!.delete(listener);
+    if (set!.size === 0) cacheListeners.delete(key);
+  };
+}
+
+/**
+ * Whether a snapshot may stand in for the hub after a failed refresh. Past
+ * MAX_STALE_DATA_AGE_MS, or once the hub rejects our token, we'd rather show
+ * nothing than have someone act on a state that is long gone.
+ */
+export function canShowStaleDevices(
+  updatedAt: number | null,
+  errorKind: HaErrorKind | null,
+  now = Date.now()
+): boolean {
+  if (updatedAt === null || errorKind === 'auth') return false;
+  return now - updatedAt <= MAX_STALE_DATA_AGE_MS;
+}
+
+function isSameConnection(a: HaConnectionLike | null, b: HaConnectionLike | null) {
+  if (!a || !b) return a === b;
+  return a.baseUrl === b.baseUrl && a.longLivedToken === b.longLivedToken;
+}
 
-async function readFromStorage(userId: number, mode: HaMode): Promise<DeviceCacheEntry | null> {
+async function readFromStorage(
+  userId: number,
+  mode: HaMode,
+  expectedScope: DeviceCacheScope | null | undefined
+): Promise<DeviceCacheEntry | null> {
   const key = cacheKey(userId, mode);
   const existing = memoryCache.get(key);
-  if (existing) return existing;
+  if (existing && isScopeCompatible(existing.scope, expectedScope)) return existing;
 
   try {
-    const stored = await loadJson<DeviceCacheEntry>(key);
-    if (
-      stored &&
-      Array.isArray((stored as any).devices) &&
-      typeof (stored as any).updatedAt === 'number'
-    ) {
-      memoryCache.set(key, stored);
-      return stored;
+    const stored = migrateCacheEntry(await loadJson<unknown>(key));
+    if (stored && isScopeCompatible(stored.scope, expectedScope)) {
+      return setCacheEntry(key, stored);
+    }
+    // Outdated, unreadable or from another hub: drop it so it can't show up later.
+    if (existing) {
+      memoryCache.delete(key);
+      clearEntities(key);
     }
+    await removeKey(key);
   } catch {
     // Ignore storage errors; we'll fetch fresh data below
   }
@@ -40,14 +183,83 @@ async function readFromStorage(userId: number, mode: HaMode): Promise<DeviceCach
   return null;
 }
 
-async function persistCache(userId: number, mode: HaMode, entry: DeviceCacheEntry): Promise<void> {
+function isOversizedAttribute(value: unknown) {
+  if (typeof value === 'string') return value.length > MAX_SAVED_ATTRIBUTE_BYTES;
+  if (value === null || typeof value !== 'object') return false;
+  return JSON.stringify(value).length > MAX_SAVED_ATTRIBUTE_BYTES;
+}
+
+function trimAttributesForStorage(device: UIDevice): UIDevice {
+  const attributes = device.attributes ?? {};
+  const oversized = Object.keys(attributes).filter((name) => isOversizedAttribute(attributes[name]));
+  if (oversized.length === 0) return device;
+  const trimmed = { ...attributes };
+  oversized.forEach((name) => delete trimmed[name]);
+  return { ...device, attributes: trimmed };
+}
+
+// Saves a size-limited copy. A snapshot that's still too big isn't saved at all,
+// rather than pushing other app data out of storage.
+async function writeToStorage(key: string, entry: DeviceCacheEntry): Promise<void> {
+  const saved: DeviceCacheEntry = { ...entry, devices: entry.devices.map(trimAttributesForStorage) };
+  if (JSON.stringify(saved).length > MAX_CACHE_BYTES) {
+    await removeKey(key);
+    return;
+  }
+  await saveJson(key, saved);
+}
+
+async function persistCache(
+  userId: number,
+  mode: HaMode,
+  snapshot: DeviceCacheEntry
+): Promise<DeviceCacheEntry> {
   const key = cacheKey(userId, mode);
-  memoryCache.set(key, entry);
+  const entry = setCacheEntry(key, snapshot);
+  notifyCacheListeners(key, entry);
+  const timer = persistTimers.get(key);
+  if (timer) {
+    clearTimeout(timer);
+    persistTimers.delete(key);
+  }
   try {
-    await saveJson(key, entry);
+    await writeToStorage(key, entry);
   } catch {
     // Ignore storage write failures to avoid blocking UI
   }
+  return entry;
+}
+
+function schedulePersist(key: string) {
+  if (persistTimers.has(key)) return;
+  const timer = setTimeout(() => {
+    persistTimers.delete(key);
+    const entry = memoryCache.get(key);
+    if (!entry) return;
+    writeToStorage(key, entry).catch(() => undefined);
+  }, LIVE_PERSIST_DELAY_MS);
+  persistTimers.set(key, timer);
+}
+
+function applyLiveStateChange(key: string, change: HaStateChangedData) {
+  if (!memoryCache.has(key)) return;
+  const previous = getEntity(key, change.entity_id);
+  const devices = patchEntity(key, change.entity_id, change.new_state);
+  if (!devices) return;
+  const next: DeviceCacheEntry = { ...memoryCache.get(key)!, devices, updatedAt: Date.now() };
+  memoryCache.set(key, next);
+  // Entity subscribers already have the change; cache listeners only care about snapshots.
+  reconcilePredictions(devices);
+  schedulePersist(key);
+  const device = getEntity(key, change.entity_id);
+  if (previous && device) {
+    emitDeviceEvents(
+      diffDevice(previous, device, {
+        source: 'live',
+        haUserId: change.new_state?.context?.user_id ?? null,
+      })
+    );
+  }
 }
 
 async function fetchAndCacheDevices(userId: number, mode: HaMode): Promise<DeviceCacheEntry> {
@@ -58,10 +270,18 @@ async function fetchAndCacheDevices(userId: number, mode: HaMode): Promise<Devic
   }
 
   const request = (async () => {
-    const devices = await fetchDevicesForUser(userId, mode);
-    const entry: DeviceCacheEntry = { devices, updatedAt: Date.now() };
-    await persistCache(userId, mode, entry);
-    return entry;
+    const { devices, ha, haConnection } = await fetchDeviceSnapshotForUser(userId, mode);
+    if (ha) {
+      liveConnections.set(key, ha);
+    } else {
+      liveConnections.delete(key);
+    }
+    return persistCache(userId, mode, {
+      version: DEVICE_CACHE_VERSION,
+      scope: getDeviceCacheScope(haConnection, mode),
+      devices,
+      updatedAt: Date.now(),
+    });
   })();
 
   inFlight.set(key, request);
@@ -72,17 +292,194 @@ async function fetchAndCacheDevices(userId: number, mode: HaMode): Promise<Devic
   }
 }
 
-export function useDevices(userId: number, mode: HaMode) {
+// Bumped whenever an optimistic overlay is added or cleared.
+function usePredictionVersion() {
+  const [version, setVersion] = useState(0);
+  useEffect(() => subscribeToPredictions(() => setVersion((v) => v + 1)), []);
+  return version;
+}
+
+const EMPTY_SELECTION: UIDevice[] = [];
+
+function isSameSelection(a: UIDevice[], b: UIDevice[]) {
+  return a.length === b.length && a.every((device, index) => device === b[index]);
+}
+
+// Re-renders only when the matching devices change, not on every update elsewhere.
+function useDeviceSelection(
+  userId: number,
+  mode: HaMode,
+  selectionKey: string,
+  matches: (device: UIDevice) => boolean
+): UIDevice[] {
+  const scope = cacheKey(userId, mode);
+  const matchesRef = useRef(matches);
+  matchesRef.current = matches;
+  const [selection, setSelection] = useState<UIDevice[]>(() =>
+    getEntityList(scope).filter((d) => matchesRef.current(d))
+  );
+  const predictionVersion = usePredictionVersion();
+  const expired = useScopeExpired(scope);
+
+  useEffect(() => {
+    const update = () => {
+      const next = getEntityList(scope).filter((d) => matchesRef.current(d));
+      setSelection((prev) => (isSameSelection(prev, next) ? prev : next));
+    };
+    update();
+    return subscribeToEntityList(scope, update);
+  }, [scope, selectionKey]);
+
+  return useMemo(
+    () => (expired ? EMPTY_SELECTION : applyPredictions(selection)),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [expired, selection, predictionVersion]
+  );
+}
+
+/**
+ * One device, re-rendering only when that entity changes. Needs `useDevices`
+ * mounted to stay fresh, and goes null with the rest once the data is too old to act on.
+ */
+export function useDevice(
+  userId: number,
+  mode: HaMode,
+  entityId: string | null | undefined
+): UIDevice | null {
+  const scope = cacheKey(userId, mode);
+  const [device, setDevice] = useState<UIDevice | null>(() =>
+    entityId ? getEntity(scope, entityId) : null
+  );
+  const predictionVersion = usePredictionVersion();
+  const expired = useScopeExpired(scope);
+
+  useEffect(() => {
+    if (!entityId) {
+      setDevice(null);
+      return;
+    }
+    setDevice(getEntity(scope, entityId));
+    return subscribeToEntity(scope, entityId, () => setDevice(getEntity(scope, entityId)));
+  }, [entityId, scope]);
+
+  return useMemo(
+    () => (device && !expired ? applyPredictions([device])[0] : null),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [device, expired, predictionVersion]
+  );
+}
+
+/** The latest known copy of one device, outside React (e.g. to replay a queued command). */
+export function getCachedDevice(userId: number, mode: HaMode, entityId: string): UIDevice | null {
+  const scope = cacheKey(userId, mode);
+  return expiredScopes.has(scope) ? null : getEntity(scope, entityId);
+}
+
+/** Devices in one area, or in any area when `area` is null. */
+export function useDevicesInArea(userId: number, mode: HaMode, area: string | null): UIDevice[] {
+  return useDeviceSelection(userId, mode, `area:${area ?? '*'}`, (d) => {
+    const areaName = (d.area ?? d.areaName ?? '').trim();
+    return area === null ? areaName.length > 0 : areaName === area;
+  });
+}
+
+/** Sensors currently reporting smoke, a leak and the like, wherever they are. */
+export function useActiveHazards(userId: number, mode: HaMode): UIDevice[] {
+  return useDeviceSelection(userId, mode, 'hazards', isHazardActive);
+}
+
+/** Every entity of one domain; none when `domain` is null. */
+export function useDevicesInDomain(userId: number, mode: HaMode, domain: string | null) {
+  return useDeviceSelection(userId, mode, `domain:${domain ?? ''}`, (d) => d.domain === domain);
+}
+
+/** Every entity with one label; none when `label` is null. */
+export function useDevicesWithLabel(userId: number, mode: HaMode, label: string | null) {
+  return useDeviceSelection(userId, mode, `label:${label ?? ''}`, (d) => d.label === label);
+}
+
+/** The entities HA groups under one physical device; none when `deviceId` is null. */
+export function useDevicesOnDevice(userId: number, mode: HaMode, deviceId: string | null) {
+  return useDeviceSelection(
+    userId,
+    mode,
+    `device:${deviceId ?? ''}`,
+    (d) => deviceId !== null && d.deviceId === deviceId
+  );
+}
+
+const EMPTY_AREA_NAMES: string[] = [];
+
+function getAreaNames(scope: string): string[] {
+  const names = new Set<string>();
+  for (const d of getEntityList(scope)) {
+    const areaName = (d.area ?? d.areaName ?? '').trim();
+    if (areaName.length > 0) names.add(areaName);
+  }
+  return Array.from(names).sort((a, b) => a.localeCompare(b));
+}
+
+/** Sorted names of the areas that have devices; re-renders only when that list changes. */
+export function useAreaNames(userId: number, mode: HaMode): string[] {
+  const scope = cacheKey(userId, mode);
+  const [names, setNames] = useState<string[]>(() => getAreaNames(scope));
+  const expired = useScopeExpired(scope);
+
+  useEffect(() => {
+    const update = () => {
+      const next = getAreaNames(scope);
+      setNames((prev) =>
+        prev.length === next.length && prev.every((name, index) => name === next[index])
+          ? prev
+          : next
+      );
+    };
+    update();
+    return subscribeToEntityList(scope, update);
+  }, [scope]);
+
+  return expired ? EMPTY_AREA_NAMES : names;
+}
+
+export function useDevices(userId: number, mode: HaMode, options: UseDevicesOptions = {}) {
   const initialKey = useMemo(() => cacheKey(userId, mode), [mode, userId]);
-  const initial = useMemo(() => memoryCache.get(initialKey) ?? null, [initialKey]);
-  const [devices, setDevices] = useState<UIDevice[]>(initial?.devices ?? []);
+  const connection = options.connection;
+  const expectedScope = useMemo(
+    () => (connection ? getDeviceCacheScope(connection, mode) : undefined),
+    // Only the fields that make up the scope matter, not the session object itself.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [connection?.id, connection?.baseUrl, connection?.cloudUrl, connection?.longLivedToken, mode]
+  );
+  // Another hub's snapshot (e.g. before the hub was changed) must not flash up while we load.
+  const initial = useMemo(() => {
+    const entry = memoryCache.get(initialKey);
+    return entry && isScopeCompatible(entry.scope, expectedScope) ? entry : null;
+  }, [expectedScope, initialKey]);
+  // Just whether there is anything to show; screens read the devices through the selectors above.
+  const [hasDevices, setHasDevices] = useState((initial?.devices.length ?? 0) > 0);
   const [lastUpdated, setLastUpdated] = useState<number | null>(initial?.updatedAt ?? null);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [errorKind, setErrorKind] = useState<HaErrorKind | null>(null);
+  // Set once failed refreshes have gone on long enough that the snapshot is too old to show.
+  const staleExpired = useScopeExpired(initialKey);
+  const errorKindRef = useRef<HaErrorKind | null>(null);
+  const [liveConnection, setLiveConnection] = useState<HaConnectionLike | null>(
+    () => liveConnections.get(initialKey) ?? null
+  );
+  const [liveStatus, setLiveStatus] = useState<HaSocketStatus>('disconnected');
   const mountedRef = useRef(true);
+  const onConnectionLostRef = useRef(options.onConnectionLost);
+  onConnectionLostRef.current = options.onConnectionLost;
   const requestIdRef = useRef(0);
+  const lastSyncRef = useRef(0);
+  const lastPollRef = useRef(0);
+  const profile = options.profile ?? REFRESH_PROFILES.phone;
+  const paused = options.paused === true;
+  const priorityKey = (options.priorityEntityIds ?? []).join('|');
+  const liveStatusRef = useRef<HaSocketStatus>('disconnected');
   // Track whether the app is in the foreground to avoid background polling.
-  const appStateRef = useRef<string>(AppState.currentState);
+  const [appActive, setAppActive] = useState(AppState.currentState === 'active');
 
   useEffect(() => {
     mountedRef.current = true;
@@ -93,7 +490,7 @@ export function useDevices(userId: number, mode: HaMode) {
 
   useEffect(() => {
     const sub = AppState.addEventListener('change', (state) => {
-      appStateRef.current = state;
+      setAppActive(state === 'active');
     });
     return () => {
       sub.remove();
@@ -103,7 +500,7 @@ export function useDevices(userId: number, mode: HaMode) {
   const updateState = useCallback(
     (entry: DeviceCacheEntry | null) => {
       if (!mountedRef.current || !entry) return;
-      setDevices(entry.devices);
+      setHasDevices(entry.devices.length > 0);
       setLastUpdated(entry.updatedAt);
     },
     []
@@ -113,6 +510,7 @@ export function useDevices(userId: number, mode: HaMode) {
     async (opts: RefreshOptions = {}): Promise<UIDevice[] | null> => {
       const silent = opts.background === true;
       let currentRequestId: number | null = null;
+      lastPollRef.current = Date.now();
 
       if (!silent) {
         const nextId = requestIdRef.current + 1;
@@ -131,6 +529,12 @@ export function useDevices(userId: number, mode: HaMode) {
         }
         updateState(entry);
         setError(null);
+        setErrorKind(null);
+        setScopeExpired(cacheKey(userId, mode), false);
+        errorKindRef.current = null;
+        lastSyncRef.current = Date.now();
+        const connection = liveConnections.get(cacheKey(userId, mode)) ?? null;
+        setLiveConnection((prev) => (isSameConnection(prev, connection) ? prev : connection));
         return entry.devices;
       } catch (err) {
         const message =
@@ -138,11 +542,17 @@ export function useDevices(userId: number, mode: HaMode) {
             ? err.message
             : 'We could not load your devices right now. Please refresh or switch modes.';
         if (mountedRef.current && (currentRequestId === null || currentRequestId === requestIdRef.current)) {
+          const kind = getHaErrorKind(err);
+          errorKindRef.current = kind;
+          if (kind === 'unreachable') onConnectionLostRef.current?.();
           setError(message);
-          // Clear devices for this mode on error to avoid showing stale data.
-          const emptyEntry: DeviceCacheEntry = { devices: [], updatedAt: Date.now() };
-          await persistCache(userId, mode, emptyEntry);
-          updateState(emptyEntry);
+          setErrorKind(kind);
+          // Keep the last good snapshot, in memory and on disk; the policy decides whether it's shown.
+          const last = memoryCache.get(cacheKey(userId, mode)) ?? null;
+          setScopeExpired(
+            cacheKey(userId, mode),
+            !canShowStaleDevices(last?.updatedAt ?? null, kind)
+          );
         }
         return null;
       } finally {
@@ -156,42 +566,177 @@ export function useDevices(userId: number, mode: HaMode) {
 
   useEffect(() => {
     const key = cacheKey(userId, mode);
-    const cached = memoryCache.get(key);
+    let cached = memoryCache.get(key);
+    if (cached && !isScopeCompatible(cached.scope, expectedScope)) {
+      // Left over from another hub: drop it so the selectors stop showing it too.
+      memoryCache.delete(key);
+      clearEntities(key);
+      cached = undefined;
+    }
     if (cached) {
-      setDevices(cached.devices);
+      setHasDevices(cached.devices.length > 0);
       setLastUpdated(cached.updatedAt);
     } else {
-      setDevices([]);
+      setHasDevices(false);
       setLastUpdated(null);
     }
     setError(null);
-  }, [mode, userId]);
+    setErrorKind(null);
+    setScopeExpired(key, false);
+    errorKindRef.current = null;
+  }, [expectedScope, mode, userId]);
+
+  useEffect(() => {
+    return subscribeToCache(cacheKey(userId, mode), updateState);
+  }, [mode, updateState, userId]);
+
+  // While refreshes keep failing nothing else re-checks the snapshot's age (polling stops
+  // after an auth error, and in the background), so take it down on time.
+  useEffect(() => {
+    if (!errorKind || staleExpired) return;
+    const key = cacheKey(userId, mode);
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const check = () => {
+      const updatedAt = memoryCache.get(key)?.updatedAt ?? null;
+      if (updatedAt === null || !canShowStaleDevices(updatedAt, errorKindRef.current)) {
+        setScopeExpired(key, true);
+        return;
+      }
+      // Live updates may have moved updatedAt on; look again when the newest copy runs out.
+      timer = setTimeout(check, updatedAt + MAX_STALE_DATA_AGE_MS - Date.now() + 1);
+    };
+    check();
+    return () => {
+      if (timer) clearTimeout(timer);
+    };
+  }, [errorKind, mode, staleExpired, userId]);
+
+  const showingDevices = hasDevices && !staleExpired;
+  // Showing the last good snapshot because the latest refresh failed.
+  const stale = !!error && showingDevices;
+
+  useEffect(() => {
+    if (!liveConnection || !appActive) {
+      liveStatusRef.current = 'disconnected';
+      setLiveStatus('disconnected');
+      return;
+    }
+    const key = cacheKey(userId, mode);
+    const socket = getHaSocket(liveConnection);
+    let dropped = false;
+    const handleStatus = (status: HaSocketStatus) => {
+      liveStatusRef.current = status;
+      if (mountedRef.current) setLiveStatus(status);
+      if (status === 'disconnected') {
+        dropped = true;
+      } else if (status === 'connected' && dropped) {
+        // Events were missed while the socket was down; catch up with a full snapshot.
+        dropped = false;
+        void refreshDevices({ background: true });
+      }
+    };
+    const offStatus = socket.onStatusChange(handleStatus);
+    const unsubscribe = socket.subscribeEvents<HaStateChangedData>('state_changed', (event) => {
+      applyLiveStateChange(key, event.data);
+    });
+    // Area or label edits change which devices are shown and where; re-join on the next refresh.
+    const unwatchRegistry = watchRegistryUpdates(liveConnection, () => {
+      void refreshDevices({ background: true });
+    });
+    handleStatus(socket.getStatus());
+    return () => {
+      unsubscribe();
+      unwatchRegistry();
+      offStatus();
+    };
+  }, [appActive, liveConnection, mode, refreshDevices, userId]);
 
   useEffect(() => {
     let cancelled = false;
     (async () => {
-      const cached = await readFromStorage(userId, mode);
+      const cached = await readFromStorage(userId, mode, expectedScope);
       if (cancelled || !mountedRef.current) return;
       updateState(cached);
       await refreshDevices({ background: true });
     })();
 
-    const interval = setInterval(() => {
-      if (appStateRef.current !== 'active') return;
-      void refreshDevices({ background: true });
-    }, 12000);
+    return () => {
+      cancelled = true;
+    };
+  }, [expectedScope, mode, refreshDevices, updateState, userId]);
+
+  const refreshPriorityEntities = useCallback(
+    async (entityIds: string[]) => {
+      const key = cacheKey(userId, mode);
+      const ha = liveConnections.get(key);
+      if (!ha) return;
+      const results = await Promise.allSettled(entityIds.map((id) => fetchHaState(ha, id)));
+      results.forEach((result, index) => {
+        if (result.status !== 'fulfilled') return;
+        applyLiveStateChange(key, {
+          entity_id: entityIds[index],
+          old_state: null,
+          new_state: result.value,
+        });
+      });
+    },
+    [mode, userId]
+  );
 
+  useEffect(() => {
+    if (!appActive || paused) return;
+    const priorityIds = priorityKey ? priorityKey.split('|') : [];
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let cancelled = false;
+
+    const tick = async () => {
+      timer = null;
+      const now = Date.now();
+      const fullSyncDue =
+        now - lastSyncRef.current >=
+        getRefreshInterval(profile, now) * PRIORITY_FULL_SYNC_FACTOR;
+      // Counts as a poll even when there's nothing to fetch, so the next wait is a full interval.
+      lastPollRef.current = now;
+      // A rejected token won't fix itself; wait for a manual refresh instead of hammering the hub.
+      if (errorKindRef.current !== 'auth') {
+        if (liveStatusRef.current === 'connected') {
+          if (now - lastSyncRef.current >= LIVE_RESYNC_INTERVAL_MS) {
+            await refreshDevices({ background: true });
+          }
+        } else if (priorityIds.length > 0 && !fullSyncDue) {
+          // Only these are on screen; the rest can wait for a less frequent full snapshot.
+          await refreshPriorityEntities(priorityIds);
+        } else {
+          await refreshDevices({ background: true });
+        }
+      }
+      if (!cancelled) schedule();
+    };
+
+    const schedule = () => {
+      if (timer) clearTimeout(timer);
+      const now = Date.now();
+      const due = lastPollRef.current + getRefreshInterval(profile, now);
+      timer = setTimeout(() => void tick(), Math.max(0, due - now));
+    };
+
+    schedule();
+    const unsubscribe = subscribeToRefreshActivity(schedule);
     return () => {
       cancelled = true;
-      clearInterval(interval);
+      if (timer) clearTimeout(timer);
+      unsubscribe();
     };
-  }, [mode, refreshDevices, updateState, userId]);
+  }, [appActive, mode, paused, priorityKey, profile, refreshDevices, refreshPriorityEntities]);
 
   return {
-    devices,
+    hasDevices: showingDevices,
     lastUpdated,
+    stale,
     refreshing,
     error,
+    errorKind,
+    liveStatus,
     refreshDevices,
   };
 }
@@ -202,7 +747,14 @@ export async function clearDeviceCacheForUserAndMode(
 ): Promise<void> {
   const key = cacheKey(userId, mode);
   memoryCache.delete(key);
+  clearEntities(key);
   inFlight.delete(key);
+  liveConnections.delete(key);
+  const timer = persistTimers.get(key);
+  if (timer) {
+    clearTimeout(timer);
+    persistTimers.delete(key);
+  }
   try {
     await removeKey(key);
   } catch {
@@ -216,3 +768,33 @@ export async function clearAllDeviceCacheForUser(userId: number): Promise<void>
     await clearDeviceCacheForUserAndMode(userId, mode);
   }
 }
+
+/**
+ * Drops every saved snapshot read from this hub, for all users on this device,
+ * after its settings change. Other phones do the same when their session next
+ * re-reads the hub settings (see sessionStore).
+ */
+export async function invalidateDeviceCachesForConnection(haConnectionId: number): Promise<void> {
+  Array.from(memoryCache.entries()).forEach(([key, entry]) => {
+    if (entry.scope && entry.scope.haConnectionId !== haConnectionId) return;
+    memoryCache.delete(key);
+    clearEntities(key);
+    liveConnections.delete(key);
+    const timer = persistTimers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      persistTimers.delete(key);
+    }
+  });
+  try {
+    const keys = await listKeys(CACHE_KEY_PREFIX);
+    for (const key of keys) {
+      const stored = migrateCacheEntry(await loadJson<unknown>(key));
+      if (!stored || !stored.scope || stored.scope.haConnectionId === haConnectionId) {
+        await removeKey(key);
+      }
+    }
+  } catch {
+    // Ignore storage errors; mismatched snapshots are also dropped when read
+  }
+}
@@ -0,0 +1,152 @@
+// src/store/entityStore.ts
+import type { UIDevice } from '../models/device';
+
+type EntityTable = {
+  byId: Map<string, UIDevice>;
+  // Kept as the same array until an entity is added, removed or actually changes,
+  // so memoized screens and cards can compare by reference.
+  list: UIDevice[];
+};
+
+const tables = new Map<string, EntityTable>();
+const listListeners = new Map<string, Set<() => void>>();
+const entityListeners = new Map<string, Set<() => void>>();
+
+const EMPTY_LIST: UIDevice[] = [];
+
+// Fields that change what a card shows or where it's grouped.
+const COMPARED_FIELDS: (keyof UIDevice)[] = [
+  'state',
+  'name',
+  'area',
+  'areaName',
+  'label',
+  'labelCategory',
+  'domain',
+  'deviceId',
+];
+
+const entityKey = (scope: string, entityId: string) => `${scope}|${entityId}`;
+
+function addListener(map: Map<string, Set<() => void>>, key: string, listener: () => void) {
+  let set = map.get(key);
+  if (!set) {
+    set = new Set();
+    map.set(key, set);
+  }
+  set.add(listener);
+  return () => {
+    set!.delete(listener);
+    if (set!.size === 0) map.delete(key);
+  };
+}
+
+function sameValue(a: unknown, b: unknown) {
+  if (a === b) return true;
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function sameAttributes(a: Record<string, unknown>, b: Record<string, unknown>) {
+  if (a === b) return true;
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) return false;
+  return keys.every((key) => key in b && sameValue(a[key], b[key]));
+}
+
+function isSameDevice(a: UIDevice, b: UIDevice) {
+  return (
+    COMPARED_FIELDS.every((field) => a[field] === b[field]) &&
+    sameValue(a.labels ?? [], b.labels ?? []) &&
+    sameAttributes(a.attributes ?? {}, b.attributes ?? {})
+  );
+}
+
+function notify(scope: string, changedIds: string[]) {
+  changedIds.forEach((id) => entityListeners.get(entityKey(scope, id))?.forEach((l) => l()));
+  listListeners.get(scope)?.forEach((listener) => listener());
+}
+
+/**
+ * Replaces the entities for `scope` with a fresh snapshot. Entities that didn't
+ * change keep their previous object, and only their own subscribers are told
+ * about the ones that did. Returns the (possibly unchanged) list.
+ */
+export function replaceEntities(scope: string, devices: UIDevice[]): UIDevice[] {
+  const previous = tables.get(scope);
+  const byId = new Map<string, UIDevice>();
+  const changedIds: string[] = [];
+  let listChanged = !previous || previous.list.length !== devices.length;
+
+  const list = devices.map((device, index) => {
+    const existing = previous?.byId.get(device.entityId);
+    const kept = existing && isSameDevice(existing, device) ? existing : device;
+    if (kept !== existing) changedIds.push(device.entityId);
+    if (!listChanged && previous!.list[index] !== kept) listChanged = true;
+    byId.set(device.entityId, kept);
+    return kept;
+  });
+  previous?.byId.forEach((_, id) => {
+    if (!byId.has(id)) changedIds.push(id);
+  });
+
+  if (!listChanged && previous) return previous.list;
+  tables.set(scope, { byId, list });
+  notify(scope, changedIds);
+  return list;
+}
+
+/**
+ * Applies one live state change. Returns the new list, or null when the entity
+ * isn't one we show or nothing visible changed (HA also fires for timestamp-only updates).
+ */
+export function patchEntity(
+  scope: string,
+  entityId: string,
+  next: { state: string; attributes?: Record<string, unknown> } | null
+): UIDevice[] | null {
+  const table = tables.get(scope);
+  const current = table?.byId.get(entityId);
+  // Entities we don't show yet (new, or filtered out for tenants) arrive with the next resync.
+  if (!table || !current) return null;
+
+  if (!next) {
+    const byId = new Map(table.byId);
+    byId.delete(entityId);
+    tables.set(scope, { byId, list: table.list.filter((d) => d.entityId !== entityId) });
+    notify(scope, [entityId]);
+    return tables.get(scope)!.list;
+  }
+
+  const updated: UIDevice = { ...current, state: next.state, attributes: next.attributes ?? {} };
+  if (isSameDevice(current, updated)) return null;
+  const byId = new Map(table.byId);
+  byId.set(entityId, updated);
+  const list = table.list.map((d) => (d.entityId === entityId ? updated : d));
+  tables.set(scope, { byId, list });
+  notify(scope, [entityId]);
+  return list;
+}
+
+export function clearEntities(scope: string) {
+  const table = tables.get(scope);
+  if (!table) return;
+  tables.delete(scope);
+  notify(scope, Array.from(table.byId.keys()));
+}
+
+export function getEntity(scope: string, entityId: string): UIDevice | null {
+  return tables.get(scope)?.byId.get(entityId) ?? null;
+}
+
+export function getEntityList(scope: string): UIDevice[] {
+  return tables.get(scope)?.list ?? EMPTY_LIST;
+}
+
+export function subscribeToEntity(scope: string, entityId: string, listener: () => void) {
+  return addListener(entityListeners, entityKey(scope, entityId), listener);
+}
+
+export function subscribeToEntityList(scope: string, listener: () => void) {
+  return addListener(listListeners, scope, listener);
+}
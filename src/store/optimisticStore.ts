@@ -0,0 +1,137 @@
+// src/store/optimisticStore.ts
+import type { UIDevice } from '../models/device';
+import type { DevicePrediction } from '../utils/commandRegistry';
+
+type PendingPrediction = {
+  id: number;
+  entityId: string;
+  predicted: DevicePrediction;
+  // Real state when the first unconfirmed command was sent.
+  baseline: { state: string; attributes: Record<string, unknown> };
+  // True once HA accepted the service call; we're only waiting for the state to follow.
+  settled: boolean;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+// Give up on a prediction HA never confirms and fall back to whatever it reports.
+const PREDICTION_TTL_MS = 15000;
+
+const predictions = new Map<string, PendingPrediction>();
+const listeners = new Set<() => void>();
+let nextId = 1;
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+function dropPrediction(entityId: string, id?: number) {
+  const existing = predictions.get(entityId);
+  if (!existing || (id !== undefined && existing.id !== id)) return false;
+  clearTimeout(existing.timer);
+  predictions.delete(entityId);
+  return true;
+}
+
+function valuesMatch(expected: unknown, actual: unknown) {
+  if (typeof expected === 'number' && typeof actual === 'number') {
+    // HA rounds brightness, volume and setpoints; allow a little slack.
+    return Math.abs(expected - actual) <= Math.max(1, Math.abs(actual) * 0.02);
+  }
+  return JSON.stringify(expected) === JSON.stringify(actual);
+}
+
+function matchesPrediction(prediction: DevicePrediction, device: UIDevice) {
+  if (prediction.state !== undefined && prediction.state !== device.state) return false;
+  const attrs = device.attributes ?? {};
+  return Object.entries(prediction.attributes ?? {}).every(([key, value]) =>
+    valuesMatch(value, attrs[key])
+  );
+}
+
+function differsFromBaseline(pending: PendingPrediction, device: UIDevice) {
+  if (device.state !== pending.baseline.state) return true;
+  const attrs = device.attributes ?? {};
+  return Object.keys(pending.predicted.attributes ?? {}).some(
+    (key) => !valuesMatch(pending.baseline.attributes[key], attrs[key])
+  );
+}
+
+export function subscribeToPredictions(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Shows `predicted` on the device until HA reports a matching state, the call fails, or it times out. */
+export function applyPrediction(device: UIDevice, predicted: DevicePrediction): number {
+  const existing = predictions.get(device.entityId);
+  if (existing) clearTimeout(existing.timer);
+  const id = nextId++;
+  const entityId = device.entityId;
+  predictions.set(entityId, {
+    id,
+    entityId,
+    predicted,
+    baseline: existing?.baseline ?? {
+      state: device.state,
+      attributes: device.attributes ?? {},
+    },
+    settled: false,
+    timer: setTimeout(() => {
+      if (dropPrediction(entityId, id)) notify();
+    }, PREDICTION_TTL_MS),
+  });
+  notify();
+  return id;
+}
+
+export function settlePrediction(entityId: string, id: number): void {
+  const existing = predictions.get(entityId);
+  if (existing && existing.id === id) existing.settled = true;
+}
+
+export function rollbackPrediction(entityId: string, id: number): void {
+  if (dropPrediction(entityId, id)) notify();
+}
+
+/**
+ * Drops predictions that fresh data has caught up with: either HA now reports
+ * the predicted state, or the call went through and the state moved somewhere
+ * else (e.g. a blind went straight to "open" without reporting "opening").
+ */
+export function reconcilePredictions(devices: UIDevice[]): void {
+  if (predictions.size === 0) return;
+  let changed = false;
+  for (const device of devices) {
+    const pending = predictions.get(device.entityId);
+    if (!pending) continue;
+    if (
+      matchesPrediction(pending.predicted, device) ||
+      (pending.settled && differsFromBaseline(pending, device))
+    ) {
+      changed = dropPrediction(device.entityId) || changed;
+    }
+  }
+  if (changed) notify();
+}
+
+export function applyPredictions(devices: UIDevice[]): UIDevice[] {
+  if (predictions.size === 0) return devices;
+  return devices.map((device) => {
+    const pending = predictions.get(device.entityId);
+    if (!pending) return device;
+    return {
+      ...device,
+      state: pending.predicted.state ?? device.state,
+      attributes: { ...(device.attributes ?? {}), ...(pending.predicted.attributes ?? {}) },
+      pending: true,
+    };
+  });
+}
+
+export function clearPredictions(): void {
+  predictions.forEach((pending) => clearTimeout(pending.timer));
+  predictions.clear();
+  notify();
+}
@@ -0,0 +1,114 @@
+// src/store/refreshScheduler.ts
+import NetInfo from '@react-native-community/netinfo';
+import type { Role } from '../models/roles';
+
+export type RefreshProfile = {
+  // Normal cadence while someone is using the app.
+  baseIntervalMs: number;
+  // Faster cadence right after a command, so the result shows up quickly.
+  boostIntervalMs: number;
+  boostWindowMs: number;
+  // After this long without a touch we slow down to idleIntervalMs.
+  idleAfterMs: number;
+  idleIntervalMs: number;
+  // Every interval is stretched by this factor while the phone is on a metered
+  // connection (mobile data, or a Wi-Fi network marked as metered).
+  meteredMultiplier: number;
+};
+
+export type RefreshProfileName = 'phone' | 'wallPanel';
+
+export const REFRESH_PROFILES: Record<RefreshProfileName, RefreshProfile> = {
+  phone: {
+    baseIntervalMs: 12000,
+    boostIntervalMs: 3000,
+    boostWindowMs: 15000,
+    idleAfterMs: 2 * 60 * 1000,
+    idleIntervalMs: 60000,
+    meteredMultiplier: 2,
+  },
+  // Wall panels are always on and always on mains power and Wi-Fi; nobody touches
+  // them for hours but they should still look current.
+  wallPanel: {
+    baseIntervalMs: 10000,
+    boostIntervalMs: 3000,
+    boostWindowMs: 15000,
+    idleAfterMs: Number.POSITIVE_INFINITY,
+    idleIntervalMs: 10000,
+    meteredMultiplier: 1,
+  },
+};
+
+// Tenants' tablets are usually mounted as wall panels; an admin's tablet is a
+// management device and behaves like a phone.
+const PROFILE_BY_ROLE: Record<Role, { phone: RefreshProfileName; tablet: RefreshProfileName }> = {
+  ADMIN: { phone: 'phone', tablet: 'phone' },
+  TENANT: { phone: 'phone', tablet: 'wallPanel' },
+};
+
+// Touches more often than this don't need to wake the scheduler.
+const ACTIVITY_NOTIFY_GAP_MS = 30000;
+
+let lastInteractionAt = Date.now();
+let lastCommandAt = 0;
+let onMeteredConnection = false;
+let stopWatchingConnection: (() => void) | null = null;
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+export function getRefreshProfile(role: Role, isTablet: boolean): RefreshProfile {
+  const names = PROFILE_BY_ROLE[role] ?? PROFILE_BY_ROLE.TENANT;
+  return REFRESH_PROFILES[isTablet ? names.tablet : names.phone];
+}
+
+export function noteUserActivity() {
+  const now = Date.now();
+  const wasQuiet = now - lastInteractionAt > ACTIVITY_NOTIFY_GAP_MS;
+  lastInteractionAt = now;
+  // Coming back from idle: reschedule so the slow idle timer doesn't hold us back.
+  if (wasQuiet) notify();
+}
+
+export function noteCommandSent() {
+  lastCommandAt = Date.now();
+  lastInteractionAt = lastCommandAt;
+  notify();
+}
+
+// Only watched while someone is polling; the last known type is kept in between.
+function watchConnection() {
+  if (stopWatchingConnection) return;
+  stopWatchingConnection = NetInfo.addEventListener((state) => {
+    const metered = state.details?.isConnectionExpensive === true;
+    if (metered === onMeteredConnection) return;
+    onMeteredConnection = metered;
+    notify();
+  });
+}
+
+/** Listeners are told when activity or the connection type changes the current wait. */
+export function subscribeToRefreshActivity(listener: () => void): () => void {
+  listeners.add(listener);
+  watchConnection();
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && stopWatchingConnection) {
+      stopWatchingConnection();
+      stopWatchingConnection = null;
+    }
+  };
+}
+
+/** How long to leave between polls right now for this profile and connection. */
+export function getRefreshInterval(profile: RefreshProfile, now = Date.now()): number {
+  let interval = profile.baseIntervalMs;
+  if (now - lastCommandAt < profile.boostWindowMs) {
+    interval = profile.boostIntervalMs;
+  } else if (now - lastInteractionAt > profile.idleAfterMs) {
+    interval = profile.idleIntervalMs;
+  }
+  return onMeteredConnection ? interval * profile.meteredMultiplier : interval;
+}
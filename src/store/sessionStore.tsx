@@ -1,9 +1,22 @@
 // src/store/sessionStore.ts
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { AppState } from 'react-native';
 import type { AuthUser } from '../api/auth';
 import type { HaConnection } from '../models/haConnection';
+import type { HaConnectionLike } from '../api/ha';
+import { getUserWithHaConnection } from '../api/dinodia';
 import { loadJson, saveJson, removeKey } from '../utils/storage';
-import { clearAllDeviceCacheForUser } from './deviceStore';
+import { closeAllHaSockets } from '../api/haWebSocket';
+import { clearEntityMetadataCache } from '../api/haRegistry';
+import {
+  buildHaConnectionLike,
+  HaModePreference,
+  isRouteReachable,
+  selectHaRoute,
+} from '../api/haRoute';
+import { clearAllDeviceCacheForUser, invalidateDeviceCachesForConnection } from './deviceStore';
+import { clearPredictions } from './optimisticStore';
+import { clearCommandQueue } from './commandQueue';
 
 type Session = {
   user: AuthUser | null;
@@ -17,13 +30,52 @@ type SessionContextValue = {
   loading: boolean;
   setSession: (s: Session) => Promise<void>;
   clearSession: () => Promise<void>;
+  // Route currently in use; chosen automatically unless the user forces one.
   haMode: HaMode;
-  setHaMode: (mode: HaMode) => void;
+  // Connection details for the active route, or null when it has no URL configured.
+  activeHa: HaConnectionLike | null;
+  haModePreference: HaModePreference;
+  setHaModePreference: (preference: HaModePreference) => void;
+  // Call when the active route stops answering so the resolver can fail over.
+  reportHaRouteFailure: () => void;
 };
 
 const SessionContext = createContext<SessionContextValue | undefined>(undefined);
 
 const SESSION_KEY = 'dinodia_session';
+// While on cloud in automatic mode, check this often whether home is back.
+const HOME_RECHECK_INTERVAL_MS = 60000;
+// Past this, keep the saved hub settings rather than holding up the app (e.g. offline).
+const HA_CONNECTION_CHECK_TIMEOUT_MS = 3000;
+
+function isSameHaConnection(a: HaConnection | null, b: HaConnection | null) {
+  if (!a || !b) return a === b;
+  return (
+    a.id === b.id &&
+    a.baseUrl === b.baseUrl &&
+    a.cloudUrl === b.cloudUrl &&
+    a.longLivedToken === b.longLivedToken
+  );
+}
+
+// The saved session keeps the hub settings from sign-in, but the admin may have
+// changed them since on another phone; tenants inherit those changes.
+async function fetchCurrentHaConnection(userId: number): Promise<HaConnection | null> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const result = await Promise.race([
+      getUserWithHaConnection(userId),
+      new Promise<null>((resolve) => {
+        timer = setTimeout(() => resolve(null), HA_CONNECTION_CHECK_TIMEOUT_MS);
+      }),
+    ]);
+    return result?.haConnection ?? null;
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
 
 export function SessionProvider({ children }: { children: React.ReactNode }) {
   const [session, setSessionState] = useState<Session>({
@@ -32,19 +84,105 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
   });
   const [loading, setLoading] = useState(true);
   const [haMode, setHaModeState] = useState<HaMode>('home');
+  const [haModePreference, setHaModePreferenceState] = useState<HaModePreference>('auto');
+  const resolvingRef = useRef(false);
+  // Probes outlive renders; they check this before switching so a route the
+  // user picked in the meantime isn't overridden.
+  const preferenceRef = useRef<HaModePreference>('auto');
+
+  // Swaps in the hub's current settings when they've changed, before any
+  // snapshot saved against the old ones is trusted again.
+  const syncHaConnection = useCallback(async (current: Session): Promise<Session> => {
+    if (!current.user || !current.haConnection) return current;
+    const latest = await fetchCurrentHaConnection(current.user.id);
+    if (!latest || isSameHaConnection(latest, current.haConnection)) return current;
+    await invalidateDeviceCachesForConnection(current.haConnection.id).catch(() => undefined);
+    const next = { ...current, haConnection: latest };
+    await saveJson(SESSION_KEY, next);
+    return next;
+  }, []);
 
   useEffect(() => {
     void (async () => {
       const stored = await loadJson<Session>(SESSION_KEY);
       if (stored) {
-        setSessionState(stored);
+        setSessionState(await syncHaConnection(stored));
       }
       // Always start new app sessions in home mode.
       setHaModeState('home');
       setLoading(false);
     })();
+  }, [syncHaConnection]);
+
+  useEffect(() => {
+    if (loading) return;
+    const sub = AppState.addEventListener('change', (state) => {
+      if (state !== 'active') return;
+      void syncHaConnection(session).then((next) => {
+        if (next === session) return;
+        setSessionState((prev) => (prev.user?.id === next.user?.id ? next : prev));
+      });
+    });
+    return () => {
+      sub.remove();
+    };
+  }, [loading, session, syncHaConnection]);
+
+  const haConnection = session.haConnection;
+
+  const resolveRoute = useCallback(async () => {
+    if (!haConnection || haModePreference !== 'auto' || resolvingRef.current) return;
+    resolvingRef.current = true;
+    try {
+      const next = await selectHaRoute(haConnection);
+      // Nothing answered: stay put and let the dashboard show the connection error.
+      if (next && preferenceRef.current === 'auto') setHaModeState(next);
+    } finally {
+      resolvingRef.current = false;
+    }
+  }, [haConnection, haModePreference]);
+
+  useEffect(() => {
+    void resolveRoute();
+  }, [resolveRoute]);
+
+  useEffect(() => {
+    const sub = AppState.addEventListener('change', (state) => {
+      if (state === 'active') void resolveRoute();
+    });
+    return () => {
+      sub.remove();
+    };
+  }, [resolveRoute]);
+
+  useEffect(() => {
+    if (!haConnection || haModePreference !== 'auto' || haMode !== 'cloud') return;
+    const id = setInterval(() => {
+      if (AppState.currentState !== 'active') return;
+      void isRouteReachable(haConnection, 'home').then((reachable) => {
+        if (reachable && preferenceRef.current === 'auto') setHaModeState('home');
+      });
+    }, HOME_RECHECK_INTERVAL_MS);
+    return () => clearInterval(id);
+  }, [haConnection, haMode, haModePreference]);
+
+  const reportHaRouteFailure = useCallback(() => {
+    void resolveRoute();
+  }, [resolveRoute]);
+
+  const setHaModePreference = useCallback((preference: HaModePreference) => {
+    preferenceRef.current = preference;
+    setHaModePreferenceState(preference);
+    if (preference !== 'auto') {
+      setHaModeState(preference);
+    }
   }, []);
 
+  const activeHa = useMemo(
+    () => buildHaConnectionLike(haConnection, haMode),
+    [haConnection, haMode]
+  );
+
   const setSession = async (s: Session) => {
     const previousUserId = session.user?.id;
     if (previousUserId && s.user?.id && previousUserId !== s.user.id) {
@@ -52,6 +190,8 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
     }
     setSessionState(s);
     setHaModeState('home');
+    preferenceRef.current = 'auto';
+    setHaModePreferenceState('auto');
     await saveJson(SESSION_KEY, s);
   };
 
@@ -59,15 +199,32 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
     const userId = session.user?.id;
     setSessionState({ user: null, haConnection: null });
     setHaModeState('home');
+    preferenceRef.current = 'auto';
+    setHaModePreferenceState('auto');
+    closeAllHaSockets();
+    clearEntityMetadataCache();
+    clearPredictions();
     await removeKey(SESSION_KEY);
     if (userId) {
       await clearAllDeviceCacheForUser(userId).catch(() => undefined);
+      // Queued actions belong to this sign-in; don't replay them for whoever logs in next.
+      await clearCommandQueue(userId);
     }
   };
 
   return (
     <SessionContext.Provider
-      value={{ session, loading, setSession, clearSession, haMode, setHaMode: setHaModeState }}
+      value={{
+        session,
+        loading,
+        setSession,
+        clearSession,
+        haMode,
+        activeHa,
+        haModePreference,
+        setHaModePreference,
+        reportHaRouteFailure,
+      }}
     >
       {children}
     </SessionContext.Provider>
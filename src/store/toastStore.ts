@@ -0,0 +1,26 @@
+// src/store/toastStore.ts
+export type ToastTone = 'info' | 'success' | 'error';
+
+export type Toast = {
+  id: number;
+  message: string;
+  tone: ToastTone;
+  durationMs: number;
+};
+
+const DEFAULT_DURATION_MS = 3500;
+
+const listeners = new Set<(toast: Toast) => void>();
+let nextId = 1;
+
+export function showToast(message: string, tone: ToastTone = 'info', durationMs = DEFAULT_DURATION_MS) {
+  const toast: Toast = { id: nextId++, message, tone, durationMs };
+  listeners.forEach((listener) => listener(toast));
+}
+
+export function subscribeToToasts(listener: (toast: Toast) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,81 @@
+// src/store/unitPreferences.ts
+import { useCallback, useEffect, useState } from 'react';
+import { loadJson, saveJson } from '../utils/storage';
+import type { UnitKind, UnitPreferences } from '../utils/unitFormat';
+
+const UNIT_PREFS_KEY_PREFIX = 'dinodia_unit_prefs_';
+const EMPTY_PREFERENCES: UnitPreferences = {};
+
+const preferencesByUser = new Map<number, UnitPreferences>();
+const loadsByUser = new Map<number, Promise<UnitPreferences>>();
+const listeners = new Set<(userId: number, prefs: UnitPreferences) => void>();
+
+function prefsKey(userId: number) {
+  return `${UNIT_PREFS_KEY_PREFIX}${userId}`;
+}
+
+export function loadUnitPreferences(userId: number): Promise<UnitPreferences> {
+  const cached = preferencesByUser.get(userId);
+  if (cached) return Promise.resolve(cached);
+  let pending = loadsByUser.get(userId);
+  if (!pending) {
+    pending = loadJson<UnitPreferences>(prefsKey(userId))
+      .catch(() => null)
+      .then((stored) => {
+        const prefs = preferencesByUser.get(userId) ?? stored ?? EMPTY_PREFERENCES;
+        preferencesByUser.set(userId, prefs);
+        return prefs;
+      });
+    loadsByUser.set(userId, pending);
+  }
+  return pending;
+}
+
+/** Pass `undefined` to go back to the hub's own unit. */
+export async function setUnitPreference<K extends UnitKind>(
+  userId: number,
+  kind: K,
+  unit: UnitPreferences[K] | undefined
+): Promise<void> {
+  const current = await loadUnitPreferences(userId);
+  const next: UnitPreferences = { ...current, [kind]: unit };
+  if (unit === undefined) delete next[kind];
+  preferencesByUser.set(userId, next);
+  listeners.forEach((listener) => listener(userId, next));
+  await saveJson(prefsKey(userId), next).catch(() => undefined);
+}
+
+export function useUnitPreferences(userId: number | null | undefined) {
+  const [prefs, setPrefs] = useState<UnitPreferences>(
+    () => (userId ? preferencesByUser.get(userId) : undefined) ?? EMPTY_PREFERENCES
+  );
+
+  useEffect(() => {
+    if (!userId) {
+      setPrefs(EMPTY_PREFERENCES);
+      return;
+    }
+    let active = true;
+    void loadUnitPreferences(userId).then((loaded) => {
+      if (active) setPrefs(loaded);
+    });
+    const listener = (changedUserId: number, next: UnitPreferences) => {
+      if (changedUserId === userId) setPrefs(next);
+    };
+    listeners.add(listener);
+    return () => {
+      active = false;
+      listeners.delete(listener);
+    };
+  }, [userId]);
+
+  const setUnit = useCallback(
+    <K extends UnitKind>(kind: K, unit: UnitPreferences[K] | undefined) => {
+      if (!userId) return;
+      void setUnitPreference(userId, kind, unit);
+    },
+    [userId]
+  );
+
+  return { units: prefs, setUnit };
+}
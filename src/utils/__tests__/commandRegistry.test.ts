@@ -0,0 +1,158 @@
+import {
+  buildServiceCall,
+  CommandDefinition,
+  getCommandDefinition,
+  isCommandAvailable,
+  normalizeCommandValue,
+  predictCommandOutcome,
+} from '../commandRegistry';
+
+function command(id: string): CommandDefinition {
+  const def = getCommandDefinition(id);
+  if (!def) throw new Error(`${id} is not registered`);
+  return def;
+}
+
+function context(overrides: Partial<Parameters<typeof buildServiceCall>[1]> = {}) {
+  return {
+    entityId: 'light.kitchen',
+    domain: 'light',
+    state: null,
+    attributes: {},
+    ...overrides,
+  };
+}
+
+describe('normalizeCommandValue', () => {
+  it('clamps numbers to the range and snaps them to the step', () => {
+    const def = command('light/set_brightness');
+    expect(normalizeCommandValue(def, 140)).toBe(100);
+    expect(normalizeCommandValue(def, -5)).toBe(0);
+    expect(normalizeCommandValue(def, 42.6)).toBe(43);
+  });
+
+  it('rejects a missing or non-numeric value for number params', () => {
+    const def = command('light/set_brightness');
+    expect(() => normalizeCommandValue(def, undefined)).toThrow('numeric');
+    expect(() => normalizeCommandValue(def, 'bright')).toThrow('numeric');
+  });
+
+  it('snaps fractional steps without float noise', () => {
+    const def = command('climate/set_temperature');
+    const attrs = { min_temp: 7, max_temp: 35, target_temp_step: 0.5, temperature: 20 };
+    expect(normalizeCommandValue(def, 20.3, attrs)).toBe(20.5);
+  });
+
+  it('checks enum values against the options the entity reports', () => {
+    const def = command('climate/set_hvac_mode');
+    const attrs = { hvac_modes: ['off', 'heat'] };
+    expect(normalizeCommandValue(def, 'heat', attrs)).toBe('heat');
+    expect(() => normalizeCommandValue(def, 'cool', attrs)).toThrow('off, heat');
+    expect(() => normalizeCommandValue(def, 'heat', {})).toThrow();
+  });
+
+  it('wraps hue and clamps saturation', () => {
+    const def = command('light/set_hs_color');
+    expect(normalizeCommandValue(def, [370, 120])).toEqual([10, 100]);
+    expect(() => normalizeCommandValue(def, 30)).toThrow('hue and saturation');
+  });
+
+  it('returns undefined for commands without a param', () => {
+    expect(normalizeCommandValue(command('blind/open'), 12)).toBeUndefined();
+  });
+});
+
+describe('buildServiceCall', () => {
+  it('targets the entity and merges in the command data', () => {
+    const def = command('light/set_brightness');
+    expect(buildServiceCall(def, context({ value: 40 }))).toEqual({
+      domain: 'light',
+      service: 'turn_on',
+      data: { entity_id: 'light.kitchen', brightness_pct: 40 },
+    });
+  });
+
+  it('picks the service from the current state when it depends on it', () => {
+    const def = command('light/toggle');
+    expect(buildServiceCall(def, context({ state: 'on' })).service).toBe('turn_off');
+    expect(buildServiceCall(def, context({ state: 'off' })).service).toBe('turn_on');
+    const plug = buildServiceCall(def, context({ entityId: 'switch.plug', domain: 'switch' }));
+    expect(plug).toEqual({
+      domain: 'homeassistant',
+      service: 'toggle',
+      data: { entity_id: 'switch.plug' },
+    });
+  });
+});
+
+describe('isCommandAvailable', () => {
+  it('limits commands to their domains', () => {
+    const light = { domain: 'light', attributes: {} };
+    const plug = { domain: 'switch', attributes: {} };
+    expect(isCommandAvailable('light/set_brightness', light)).toBe(true);
+    expect(isCommandAvailable('light/set_brightness', plug)).toBe(false);
+  });
+
+  it('asks the entity whether it supports the command', () => {
+    const light = { domain: 'light', attributes: { effect_list: ['Rainbow'] } };
+    expect(isCommandAvailable('light/set_effect', light)).toBe(true);
+    expect(isCommandAvailable('light/set_effect', { domain: 'light', attributes: {} })).toBe(false);
+  });
+
+  it('is false for unknown commands', () => {
+    expect(isCommandAvailable('light/explode', { domain: 'light', attributes: {} })).toBe(false);
+  });
+});
+
+describe('predictCommandOutcome', () => {
+  const device = { entityId: 'light.kitchen', domain: 'light', state: 'off', attributes: {} };
+
+  it('predicts from the normalized value', () => {
+    const prediction = predictCommandOutcome(command('light/set_brightness'), device, 150);
+    expect(prediction).toEqual({ state: 'on', attributes: { brightness: 255 } });
+  });
+
+  it('predicts nothing for a value the command would reject', () => {
+    expect(predictCommandOutcome(command('light/set_brightness'), device, 'bright')).toBeNull();
+  });
+
+  it('shows an alarm as disarming until the hub confirms', () => {
+    const panel = {
+      entityId: 'alarm_control_panel.home',
+      domain: 'alarm_control_panel',
+      state: 'armed_away',
+      attributes: {},
+    };
+    expect(predictCommandOutcome(command('alarm/disarm'), panel, '1234')).toEqual({
+      state: 'disarming',
+    });
+  });
+});
+
+describe('boiler/temp_up and boiler/temp_down', () => {
+  const thermostat = (attributes: Record<string, unknown>) =>
+    context({ entityId: 'climate.hall', domain: 'climate', attributes });
+
+  it('steps a single setpoint within the limits', () => {
+    const attrs = { temperature: 21, min_temp: 7, max_temp: 21.5, target_temp_step: 0.5 };
+    expect(buildServiceCall(command('boiler/temp_up'), thermostat(attrs)).data).toEqual({
+      entity_id: 'climate.hall',
+      temperature: 21.5,
+    });
+    const atMax = thermostat({ ...attrs, temperature: 21.5 });
+    expect(buildServiceCall(command('boiler/temp_up'), atMax).data.temperature).toBe(21.5);
+  });
+
+  it('moves both ends of the range in heat_cool mode', () => {
+    const attrs = { temperature: null, target_temp_low: 19, target_temp_high: 24 };
+    expect(buildServiceCall(command('boiler/temp_down'), thermostat(attrs)).data).toEqual({
+      entity_id: 'climate.hall',
+      target_temp_low: 18.5,
+      target_temp_high: 23.5,
+    });
+  });
+
+  it('refuses to guess when the thermostat reports no temperatures', () => {
+    expect(() => buildServiceCall(command('boiler/temp_up'), thermostat({}))).toThrow();
+  });
+});
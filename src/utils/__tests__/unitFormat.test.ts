@@ -0,0 +1,112 @@
+import type { UIDevice } from '../../models/device';
+import {
+  convertToPreferredUnit,
+  formatDuration,
+  formatMeasurement,
+  formatRelativeTime,
+  formatSensorState,
+  isCumulativeUnit,
+} from '../unitFormat';
+
+function sensor(state: string, attributes: Record<string, unknown>): UIDevice {
+  return {
+    entityId: 'sensor.test',
+    deviceId: null,
+    name: 'Test',
+    state,
+    area: null,
+    label: null,
+    domain: 'sensor',
+    attributes,
+  };
+}
+
+describe('convertToPreferredUnit', () => {
+  it('converts temperatures both ways', () => {
+    const fahrenheit = convertToPreferredUnit(20, '°C', { temperature: '°F' });
+    expect(fahrenheit).toEqual({ value: 68, unit: '°F' });
+    const celsius = convertToPreferredUnit(212, '°F', { temperature: '°C' });
+    expect(celsius.unit).toBe('°C');
+    expect(celsius.value).toBeCloseTo(100);
+  });
+
+  it('rescales energy, power and pressure', () => {
+    expect(convertToPreferredUnit(1500, 'Wh', { energy: 'kWh' })).toEqual({
+      value: 1.5,
+      unit: 'kWh',
+    });
+    expect(convertToPreferredUnit(2.2, 'kW', { power: 'W' })).toEqual({ value: 2200, unit: 'W' });
+    expect(convertToPreferredUnit(1013, 'mbar', { pressure: 'hPa' })).toEqual({
+      value: 1013,
+      unit: 'hPa',
+    });
+  });
+
+  it('leaves readings alone without a preference or for unknown units', () => {
+    expect(convertToPreferredUnit(20, '°C', {})).toEqual({ value: 20, unit: '°C' });
+    expect(convertToPreferredUnit(400, 'ppm', { temperature: '°F' })).toEqual({
+      value: 400,
+      unit: 'ppm',
+    });
+  });
+});
+
+describe('formatMeasurement', () => {
+  it('rounds to the precision of the unit shown', () => {
+    expect(formatMeasurement(21.456, '°C', {})).toBe('21.5°C');
+    expect(formatMeasurement(1234.5678, 'Wh', { energy: 'kWh' })).toBe('1.23 kWh');
+    expect(formatMeasurement(1013.25, 'hPa', { pressure: 'inHg' })).toBe('29.92 inHg');
+  });
+
+  it('drops decimals for whole-number device classes', () => {
+    expect(formatMeasurement(54.6, '%', {}, 'humidity')).toBe('55%');
+  });
+
+  it('keeps at most two decimals for units it does not know', () => {
+    expect(formatMeasurement(412.345, 'ppm', {})).toBe('412.35 ppm');
+    expect(formatMeasurement(3.1, null, {})).toBe('3.1');
+  });
+
+  it('shows a dash for non-finite values', () => {
+    expect(formatMeasurement(Number.NaN, '°C', {})).toBe('—');
+  });
+});
+
+describe('formatDuration and formatRelativeTime', () => {
+  it('uses the two largest units', () => {
+    expect(formatDuration(45)).toBe('45 s');
+    expect(formatDuration(12 * 60)).toBe('12 min');
+    expect(formatDuration(3 * 3600 + 20 * 60)).toBe('3 h 20 min');
+    expect(formatDuration(2 * 86400 + 4 * 3600 + 59)).toBe('2 d 4 h');
+  });
+
+  it('describes times relative to now', () => {
+    const now = Date.UTC(2024, 0, 1, 12);
+    expect(formatRelativeTime(now - 10 * 1000, now)).toBe('just now');
+    expect(formatRelativeTime(now - 5 * 60 * 1000, now)).toBe('5 min ago');
+    expect(formatRelativeTime(new Date(now + 2 * 3600 * 1000).toISOString(), now)).toBe('in 2 h');
+    expect(formatRelativeTime('not a date', now)).toBe('Unknown');
+  });
+});
+
+describe('formatSensorState', () => {
+  it('converts numeric readings to the preferred unit', () => {
+    const hall = sensor('20', { unit_of_measurement: '°C', device_class: 'temperature' });
+    expect(formatSensorState(hall, { temperature: '°F' })).toBe('68.0°F');
+  });
+
+  it('formats durations and capitalizes other states', () => {
+    const timer = sensor('90', { device_class: 'duration', unit_of_measurement: 'min' });
+    expect(formatSensorState(timer, {})).toBe('1 h 30 min');
+    expect(formatSensorState(sensor('unavailable', {}), {})).toBe('Unavailable');
+    expect(formatSensorState(sensor('charging', {}), {})).toBe('Charging');
+  });
+});
+
+describe('isCumulativeUnit', () => {
+  it('treats energy totals as cumulative', () => {
+    expect(isCumulativeUnit('kWh')).toBe(true);
+    expect(isCumulativeUnit('W')).toBe(false);
+    expect(isCumulativeUnit(null)).toBe(false);
+  });
+});
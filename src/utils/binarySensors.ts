@@ -0,0 +1,61 @@
+// src/utils/binarySensors.ts
+import type { UIDevice } from '../models/device';
+import type { LabelCategory } from './labelCatalog';
+
+type BinarySensorClass = {
+  category: LabelCategory;
+  on: string;
+  off: string;
+  // An `on` state is a danger to the home, not just information.
+  hazard?: boolean;
+};
+
+// Keyed by Home Assistant's BinarySensorDeviceClass. Motion keeps its own category.
+const BINARY_SENSOR_CLASSES: Record<string, BinarySensorClass> = {
+  door: { category: 'Contact', on: 'Open', off: 'Closed' },
+  garage_door: { category: 'Contact', on: 'Open', off: 'Closed' },
+  window: { category: 'Contact', on: 'Open', off: 'Closed' },
+  opening: { category: 'Contact', on: 'Open', off: 'Closed' },
+  moisture: { category: 'Safety', on: 'Leak detected', off: 'Dry', hazard: true },
+  smoke: { category: 'Safety', on: 'Smoke!', off: 'Clear', hazard: true },
+  gas: { category: 'Safety', on: 'Gas detected!', off: 'Clear', hazard: true },
+  carbon_monoxide: { category: 'Safety', on: 'CO detected!', off: 'Clear', hazard: true },
+  heat: { category: 'Safety', on: 'Too hot!', off: 'Normal', hazard: true },
+  safety: { category: 'Safety', on: 'Unsafe', off: 'Safe', hazard: true },
+};
+
+function getBinarySensorClass(
+  domain: string | null | undefined,
+  attributes: Record<string, unknown> | null | undefined
+): BinarySensorClass | null {
+  if (domain !== 'binary_sensor') return null;
+  const deviceClass = attributes?.device_class;
+  return typeof deviceClass === 'string' ? BINARY_SENSOR_CLASSES[deviceClass] ?? null : null;
+}
+
+export function getBinarySensorCategory(
+  domain: string,
+  attributes: Record<string, unknown> | null | undefined
+): LabelCategory | null {
+  return getBinarySensorClass(domain, attributes)?.category ?? null;
+}
+
+/** e.g. "Open", "Leak detected", "Smoke!"; null when the device class isn't one we describe. */
+export function getBinarySensorStatus(device: UIDevice): string | null {
+  const info = getBinarySensorClass(device.domain, device.attributes);
+  if (!info) return null;
+  const state = (device.state ?? '').toString().toLowerCase();
+  if (state === 'on') return info.on;
+  if (state === 'off') return info.off;
+  return state === 'unavailable' ? 'Unavailable' : 'Unknown';
+}
+
+export function isBinarySensorOn(device: UIDevice): boolean {
+  return (device.state ?? '').toString().toLowerCase() === 'on';
+}
+
+/** True while a leak, smoke, gas, CO, heat or safety sensor is reporting a problem. */
+export function isHazardActive(device: UIDevice): boolean {
+  const info = getBinarySensorClass(device.domain, device.attributes);
+  return !!info?.hazard && isBinarySensorOn(device);
+}
@@ -0,0 +1,1064 @@
+// src/utils/commandRegistry.ts
+import type { UIDevice } from '../models/device';
+
+// Hue/saturation pairs are sent as [hue 0–360, saturation 0–100].
+export type CommandValue = number | string | [number, number];
+
+export type CommandParam =
+  | {
+      type: 'number';
+      min: number;
+      max: number;
+      step?: number;
+      unit?: string;
+    }
+  | {
+      type: 'enum';
+      options: readonly string[];
+    }
+  | {
+      type: 'hs_color';
+    }
+  | {
+      // Another entity's id, e.g. the speaker to group with.
+      type: 'entity';
+      domain: string;
+    }
+  | {
+      // PIN for locks and alarm panels; `pattern` is a regex the code must match.
+      type: 'code';
+      required: boolean;
+      pattern: string | null;
+    };
+
+export type NumberCommandParam = Extract<CommandParam, { type: 'number' }>;
+
+export type CommandContext = {
+  entityId: string;
+  domain: string;
+  value?: CommandValue;
+  // Only populated for commands that declare `needsState` or an entity-derived param.
+  state: string | null;
+  attributes: Record<string, unknown>;
+};
+
+// Expected effect of a command, applied to the cached device before HA confirms it.
+export type DevicePrediction = {
+  state?: string;
+  attributes?: Record<string, unknown>;
+};
+
+export type ServiceCall = {
+  domain: string;
+  service: string;
+  data: Record<string, unknown>;
+};
+
+export type CommandDefinition = {
+  id: string;
+  label: string;
+  // HA domains the command applies to; null means any entity.
+  domains: readonly string[] | null;
+  // Static schema, or one derived from the entity (e.g. its min/max or option list).
+  param?: CommandParam | ((attributes: Record<string, unknown>) => CommandParam);
+  // Whether the current state must be fetched before the service can be chosen.
+  needsState: boolean;
+  // `domain.service`, or a resolver when the service depends on value or state.
+  service: string | ((ctx: CommandContext) => string);
+  data?: (ctx: CommandContext) => Record<string, unknown>;
+  // Receives the cached state and attributes, not a fresh fetch.
+  predict?: (ctx: CommandContext) => DevicePrediction | null;
+  isSupported?: (attributes: Record<string, unknown>) => boolean;
+  // Set on commands that may be held while the hub is unreachable: how long a
+  // queued one stays worth sending. Commands whose meaning depends on the state
+  // at send time (toggles, play/pause) or that matter for safety are left out.
+  queueTtlMs?: number;
+};
+
+const registry = new Map<string, CommandDefinition>();
+
+const MINUTE_MS = 60 * 1000;
+
+// Domains whose toggle simply flips between "on" and "off".
+const ON_OFF_DOMAINS = new Set(['light', 'switch', 'fan', 'input_boolean']);
+
+export function registerCommands(definitions: CommandDefinition[]): void {
+  for (const def of definitions) {
+    registry.set(def.id, def);
+  }
+}
+
+export function getCommandDefinition(id: string): CommandDefinition | null {
+  return registry.get(id) ?? null;
+}
+
+export function isCommandAvailable(
+  id: string,
+  device: Pick<UIDevice, 'domain' | 'attributes'>
+): boolean {
+  const def = registry.get(id);
+  if (!def) return false;
+  if (def.domains && !def.domains.includes(device.domain)) return false;
+  return def.isSupported ? def.isSupported(device.attributes ?? {}) : true;
+}
+
+export function getAvailableCommands(
+  device: Pick<UIDevice, 'domain' | 'attributes'>
+): CommandDefinition[] {
+  return Array.from(registry.values()).filter((def) => isCommandAvailable(def.id, device));
+}
+
+export function resolveCommandParam(
+  def: CommandDefinition,
+  attributes: Record<string, unknown>
+): CommandParam | null {
+  if (!def.param) return null;
+  return typeof def.param === 'function' ? def.param(attributes) : def.param;
+}
+
+/**
+ * Checks a value against the command's parameter schema. Numbers are clamped
+ * and snapped to the step (sliders can overshoot slightly); anything else that
+ * doesn't fit the schema is rejected.
+ */
+export function normalizeCommandValue(
+  def: CommandDefinition,
+  value: CommandValue | undefined,
+  attributes: Record<string, unknown> = {}
+): CommandValue | undefined {
+  const param = resolveCommandParam(def, attributes);
+  if (!param) return undefined;
+
+  if (param.type === 'number') {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new Error('Command requires numeric value');
+    }
+    const clamped = Math.min(param.max, Math.max(param.min, value));
+    if (!param.step) return clamped;
+    const snapped = param.min + Math.round((clamped - param.min) / param.step) * param.step;
+    // Avoid float noise like 20.500000000000004 from fractional steps.
+    return Number(Math.min(param.max, snapped).toFixed(4));
+  }
+
+  if (param.type === 'code') {
+    const code = typeof value === 'string' ? value.trim() : '';
+    if (!code) {
+      if (param.required) throw new Error(`${def.label} needs a code`);
+      return undefined;
+    }
+    if (param.pattern && !matchesCodePattern(code, param.pattern)) {
+      throw new Error('That code is not in the expected format');
+    }
+    return code;
+  }
+
+  if (param.type === 'entity') {
+    if (typeof value !== 'string' || !value.startsWith(`${param.domain}.`)) {
+      throw new Error(`${def.label} needs a ${param.domain} entity`);
+    }
+    return value;
+  }
+
+  if (param.type === 'hs_color') {
+    if (
+      !Array.isArray(value) ||
+      value.length !== 2 ||
+      !value.every((part) => typeof part === 'number' && Number.isFinite(part))
+    ) {
+      throw new Error('Color requires a hue and saturation');
+    }
+    const hue = ((value[0] % 360) + 360) % 360;
+    const saturation = Math.min(100, Math.max(0, value[1]));
+    return [Number(hue.toFixed(1)), Number(saturation.toFixed(1))];
+  }
+
+  if (typeof value !== 'string' || !param.options.includes(value)) {
+    throw new Error(`${def.label} needs one of: ${param.options.join(', ')}`);
+  }
+  return value;
+}
+
+function matchesCodePattern(code: string, pattern: string) {
+  try {
+    return new RegExp(pattern).test(code);
+  } catch {
+    // An unparseable pattern from the integration shouldn't block the user; let HA decide.
+    return true;
+  }
+}
+
+export function buildServiceCall(def: CommandDefinition, ctx: CommandContext): ServiceCall {
+  const target = typeof def.service === 'function' ? def.service(ctx) : def.service;
+  const [domain, service] = target.split('.');
+  return {
+    domain,
+    service,
+    data: { entity_id: ctx.entityId, ...(def.data ? def.data(ctx) : {}) },
+  };
+}
+
+export function predictCommandOutcome(
+  def: CommandDefinition,
+  device: Pick<UIDevice, 'entityId' | 'domain' | 'state' | 'attributes'>,
+  value?: CommandValue
+): DevicePrediction | null {
+  if (!def.predict) return null;
+  const attributes = device.attributes ?? {};
+  let normalized: CommandValue | undefined;
+  try {
+    normalized = normalizeCommandValue(def, value, attributes);
+  } catch {
+    // Invalid input fails in handleDeviceCommand; there is nothing to predict.
+    return null;
+  }
+  return def.predict({
+    entityId: device.entityId,
+    domain: device.domain,
+    value: normalized,
+    state: device.state,
+    attributes,
+  });
+}
+
+function isOff(state: string | null) {
+  return state === 'off' || state === 'standby';
+}
+
+// Home Assistant's own defaults for climate entities that don't report limits.
+const DEFAULT_MIN_TEMP = 7;
+const DEFAULT_MAX_TEMP = 35;
+const DEFAULT_TEMP_STEP = 0.5;
+
+function readNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function readStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+export function getClimateSetpointParam(attrs: Record<string, unknown>): NumberCommandParam {
+  const min = readNumber(attrs.min_temp) ?? DEFAULT_MIN_TEMP;
+  const max = readNumber(attrs.max_temp) ?? DEFAULT_MAX_TEMP;
+  const step = readNumber(attrs.target_temp_step) ?? DEFAULT_TEMP_STEP;
+  return { type: 'number', min, max: Math.max(min, max), step, unit: '°' };
+}
+
+function readTargetTemperature(attrs: Record<string, unknown>): number | null {
+  return readNumber(attrs.temperature) ?? readNumber(attrs.current_temperature);
+}
+
+/**
+ * Setpoints one step up or down. In heat_cool mode `temperature` is null and
+ * HA only accepts the low/high pair, so both ends move together.
+ */
+function stepSetpoints(
+  attrs: Record<string, unknown>,
+  direction: 1 | -1
+): Record<string, number> | null {
+  const { min, max, step } = getClimateSetpointParam(attrs);
+  const move = (value: number) =>
+    Number(Math.min(max, Math.max(min, value + direction * (step ?? 1))).toFixed(4));
+  const low = readNumber(attrs.target_temp_low);
+  const high = readNumber(attrs.target_temp_high);
+  if (readNumber(attrs.temperature) === null && low !== null && high !== null) {
+    return { target_temp_low: move(low), target_temp_high: move(high) };
+  }
+  const target = readTargetTemperature(attrs);
+  return target === null ? null : { temperature: move(target) };
+}
+
+function requireSteppedSetpoints(
+  attrs: Record<string, unknown>,
+  direction: 1 | -1
+): Record<string, number> {
+  const next = stepSetpoints(attrs, direction);
+  if (!next) throw new Error('This thermostat has no target temperature to adjust.');
+  return next;
+}
+
+// Bits of a cover's `supported_features`, from Home Assistant's CoverEntityFeature.
+export const CoverFeature = {
+  SET_POSITION: 4,
+  STOP: 8,
+  SET_TILT_POSITION: 128,
+} as const;
+
+export function hasFeature(attrs: Record<string, unknown>, bit: number): boolean {
+  const features = readNumber(attrs.supported_features) ?? 0;
+  return (features & bit) === bit;
+}
+
+// Bits of a vacuum's `supported_features`, from Home Assistant's VacuumEntityFeature.
+export const VacuumFeature = {
+  PAUSE: 4,
+  STOP: 8,
+  RETURN_HOME: 16,
+  FAN_SPEED: 32,
+  BATTERY: 64,
+  SEND_COMMAND: 256,
+  LOCATE: 512,
+  CLEAN_SPOT: 1024,
+  START: 8192,
+} as const;
+
+export type VacuumRoom = { id: string; name: string };
+
+/**
+ * Rooms the vacuum's integration exposes, if any. Roborock and Xiaomi-based
+ * integrations publish a `rooms` attribute as either `{ id: name }` or a list
+ * of `{ id, name }`; anything else means room cleaning isn't available.
+ */
+export function getVacuumRooms(attrs: Record<string, unknown>): VacuumRoom[] {
+  const raw = attrs.rooms;
+  if (Array.isArray(raw)) {
+    return raw.flatMap((room) => {
+      if (!room || typeof room !== 'object') return [];
+      const { id, name } = room as Record<string, unknown>;
+      if (typeof id !== 'number' && typeof id !== 'string') return [];
+      return [{ id: String(id), name: typeof name === 'string' ? name : `Room ${id}` }];
+    });
+  }
+  if (raw && typeof raw === 'object') {
+    return Object.entries(raw as Record<string, unknown>).map(([id, name]) => ({
+      id,
+      name: typeof name === 'string' ? name : `Room ${id}`,
+    }));
+  }
+  return [];
+}
+
+export function lockNeedsCode(attrs: Record<string, unknown>): boolean {
+  return typeof attrs.code_format === 'string' && attrs.code_format.length > 0;
+}
+
+// A lock's `code_format` is itself a regex.
+function lockCodeParam(attrs: Record<string, unknown>): CommandParam {
+  const required = lockNeedsCode(attrs);
+  return { type: 'code', required, pattern: required ? (attrs.code_format as string) : null };
+}
+
+// Bits of an alarm panel's `supported_features`, from AlarmControlPanelEntityFeature.
+export const AlarmFeature = {
+  ARM_HOME: 1,
+  ARM_AWAY: 2,
+  ARM_NIGHT: 4,
+} as const;
+
+/**
+ * Alarm panels report `code_format` as "number" or "text" (not a regex), and
+ * `code_arm_required: false` when only disarming needs the code.
+ */
+export function alarmNeedsCode(attrs: Record<string, unknown>, forArming: boolean): boolean {
+  const format = attrs.code_format;
+  if (format !== 'number' && format !== 'text') return false;
+  return forArming ? attrs.code_arm_required !== false : true;
+}
+
+function alarmCodeParam(forArming: boolean) {
+  return (attrs: Record<string, unknown>): CommandParam => ({
+    type: 'code',
+    required: alarmNeedsCode(attrs, forArming),
+    pattern: attrs.code_format === 'number' ? '^\\d+$' : null,
+  });
+}
+
+function alarmArmCommand(
+  mode: 'home' | 'away' | 'night',
+  label: string,
+  feature: number
+): CommandDefinition {
+  return {
+    id: `alarm/arm_${mode}`,
+    label,
+    domains: ['alarm_control_panel'],
+    param: alarmCodeParam(true),
+    needsState: false,
+    service: `alarm_control_panel.alarm_arm_${mode}`,
+    data: ({ value }) => (value ? { code: value } : {}),
+    predict: () => ({ state: 'arming' }),
+    isSupported: (attrs) => hasFeature(attrs, feature),
+  };
+}
+
+// Bits of a fan's `supported_features`, from Home Assistant's FanEntityFeature.
+export const FanFeature = {
+  SET_SPEED: 1,
+  OSCILLATE: 2,
+  DIRECTION: 4,
+  PRESET_MODE: 8,
+} as const;
+
+// Fans with a few fixed speeds report the gap between them, e.g. 33.33 for three.
+export function getFanSpeedParam(attrs: Record<string, unknown>): NumberCommandParam {
+  const step = readNumber(attrs.percentage_step);
+  return { type: 'number', min: 0, max: 100, step: step && step > 0 ? step : 1, unit: '%' };
+}
+
+// Bits of a media player's `supported_features`, from MediaPlayerEntityFeature.
+export const MediaFeature = {
+  SEEK: 2,
+  VOLUME_MUTE: 8,
+  SELECT_SOURCE: 2048,
+  SHUFFLE_SET: 32768,
+  SELECT_SOUND_MODE: 65536,
+  BROWSE_MEDIA: 131072,
+  REPEAT_SET: 262144,
+  GROUPING: 524288,
+} as const;
+
+export const REPEAT_MODES = ['off', 'all', 'one'] as const;
+
+export function getMediaSeekParam(attrs: Record<string, unknown>): NumberCommandParam {
+  return { type: 'number', min: 0, max: readNumber(attrs.media_duration) ?? 0, step: 1, unit: 's' };
+}
+
+// input_number and number entities publish their own bounds; HA's defaults otherwise.
+export function getHelperNumberParam(attrs: Record<string, unknown>): NumberCommandParam {
+  const min = readNumber(attrs.min) ?? 0;
+  const max = readNumber(attrs.max) ?? 100;
+  const step = readNumber(attrs.step);
+  const unit = typeof attrs.unit_of_measurement === 'string' ? attrs.unit_of_measurement : undefined;
+  return { type: 'number', min, max: Math.max(min, max), step: step && step > 0 ? step : 1, unit };
+}
+
+// Light colour modes, from Home Assistant's ColorMode.
+const HS_CAPABLE_COLOR_MODES = ['hs', 'xy', 'rgb', 'rgbw', 'rgbww'];
+const DEFAULT_MIN_KELVIN = 2000;
+const DEFAULT_MAX_KELVIN = 6500;
+
+function supportsColorMode(attrs: Record<string, unknown>, modes: string[]) {
+  return readStringList(attrs.supported_color_modes).some((mode) => modes.includes(mode));
+}
+
+export function getColorTempParam(attrs: Record<string, unknown>): NumberCommandParam {
+  const min = readNumber(attrs.min_color_temp_kelvin) ?? DEFAULT_MIN_KELVIN;
+  const max = readNumber(attrs.max_color_temp_kelvin) ?? DEFAULT_MAX_KELVIN;
+  return { type: 'number', min, max: Math.max(min, max), step: 50, unit: 'K' };
+}
+
+function enumParam(key: string) {
+  return (attrs: Record<string, unknown>): CommandParam => ({
+    type: 'enum',
+    options: readStringList(attrs[key]),
+  });
+}
+
+function hasOptions(key: string) {
+  return (attrs: Record<string, unknown>) => readStringList(attrs[key]).length > 0;
+}
+
+registerCommands([
+  {
+    id: 'light/toggle',
+    label: 'Toggle',
+    domains: null,
+    needsState: true,
+    service: ({ domain, state }) =>
+      domain === 'light' ? (state === 'on' ? 'light.turn_off' : 'light.turn_on') : 'homeassistant.toggle',
+    predict: ({ domain, state }) =>
+      ON_OFF_DOMAINS.has(domain) ? { state: state === 'on' ? 'off' : 'on' } : null,
+  },
+  {
+    id: 'light/set_brightness',
+    label: 'Brightness',
+    domains: ['light'],
+    param: { type: 'number', min: 0, max: 100, step: 1, unit: '%' },
+    needsState: false,
+    service: 'light.turn_on',
+    data: ({ value }) => ({ brightness_pct: value }),
+    predict: ({ value }) => {
+      const pct = value as number;
+      return pct > 0
+        ? { state: 'on', attributes: { brightness: Math.round((pct / 100) * 255) } }
+        : { state: 'off' };
+    },
+    queueTtlMs: 15 * MINUTE_MS,
+  },
+  {
+    id: 'light/set_hs_color',
+    label: 'Color',
+    domains: ['light'],
+    param: { type: 'hs_color' },
+    needsState: false,
+    service: 'light.turn_on',
+    data: ({ value }) => ({ hs_color: value }),
+    predict: ({ value }) => ({ state: 'on', attributes: { hs_color: value, color_mode: 'hs' } }),
+    isSupported: (attrs) => supportsColorMode(attrs, HS_CAPABLE_COLOR_MODES),
+    queueTtlMs: 15 * MINUTE_MS,
+  },
+  {
+    id: 'light/set_color_temp',
+    label: 'Color temperature',
+    domains: ['light'],
+    param: getColorTempParam,
+    needsState: false,
+    service: 'light.turn_on',
+    data: ({ value }) => ({ color_temp_kelvin: value }),
+    predict: ({ value }) => ({
+      state: 'on',
+      attributes: { color_temp_kelvin: value, color_mode: 'color_temp' },
+    }),
+    isSupported: (attrs) => supportsColorMode(attrs, ['color_temp']),
+    queueTtlMs: 15 * MINUTE_MS,
+  },
+  {
+    id: 'light/set_effect',
+    label: 'Effect',
+    domains: ['light'],
+    param: enumParam('effect_list'),
+    needsState: false,
+    service: 'light.turn_on',
+    data: ({ value }) => ({ effect: value }),
+    predict: ({ value }) => ({ state: 'on', attributes: { effect: value } }),
+    isSupported: hasOptions('effect_list'),
+  },
+  {
+    id: 'blind/open',
+    label: 'Open',
+    domains: ['cover'],
+    needsState: false,
+    service: 'cover.open_cover',
+    predict: () => ({ state: 'opening' }),
+    queueTtlMs: 60 * MINUTE_MS,
+  },
+  {
+    id: 'blind/close',
+    label: 'Close',
+    domains: ['cover'],
+    needsState: false,
+    service: 'cover.close_cover',
+    predict: () => ({ state: 'closing' }),
+    queueTtlMs: 60 * MINUTE_MS,
+  },
+  {
+    id: 'blind/stop',
+    label: 'Stop',
+    domains: ['cover'],
+    needsState: false,
+    service: 'cover.stop_cover',
+    isSupported: (attrs) => hasFeature(attrs, CoverFeature.STOP),
+  },
+  {
+    id: 'blind/set_position',
+    label: 'Position',
+    domains: ['cover'],
+    param: { type: 'number', min: 0, max: 100, step: 1, unit: '%' },
+    needsState: false,
+    service: 'cover.set_cover_position',
+    data: ({ value }) => ({ position: value }),
+    predict: ({ value, attributes }) => {
+      const target = value as number;
+      const current = readNumber(attributes.current_position);
+      if (current === null || current === target) return null;
+      return { state: target > current ? 'opening' : 'closing' };
+    },
+    isSupported: (attrs) => hasFeature(attrs, CoverFeature.SET_POSITION),
+    queueTtlMs: 60 * MINUTE_MS,
+  },
+  {
+    id: 'blind/set_tilt',
+    label: 'Tilt',
+    domains: ['cover'],
+    param: { type: 'number', min: 0, max: 100, step: 1, unit: '%' },
+    needsState: false,
+    service: 'cover.set_cover_tilt_position',
+    data: ({ value }) => ({ tilt_position: value }),
+    predict: ({ value }) => ({ attributes: { current_tilt_position: value } }),
+    isSupported: (attrs) => hasFeature(attrs, CoverFeature.SET_TILT_POSITION),
+    queueTtlMs: 60 * MINUTE_MS,
+  },
+  {
+    id: 'vacuum/start',
+    label: 'Start',
+    domains: ['vacuum'],
+    needsState: false,
+    service: 'vacuum.start',
+    predict: () => ({ state: 'cleaning' }),
+    isSupported: (attrs) => hasFeature(attrs, VacuumFeature.START),
+  },
+  {
+    id: 'vacuum/pause',
+    label: 'Pause',
+    domains: ['vacuum'],
+    needsState: false,
+    service: 'vacuum.pause',
+    predict: () => ({ state: 'paused' }),
+    isSupported: (attrs) => hasFeature(attrs, VacuumFeature.PAUSE),
+  },
+  {
+    id: 'vacuum/stop',
+    label: 'Stop',
+    domains: ['vacuum'],
+    needsState: false,
+    service: 'vacuum.stop',
+    predict: () => ({ state: 'idle' }),
+    isSupported: (attrs) => hasFeature(attrs, VacuumFeature.STOP),
+  },
+  {
+    id: 'vacuum/return_to_base',
+    label: 'Return to dock',
+    domains: ['vacuum'],
+    needsState: false,
+    service: 'vacuum.return_to_base',
+    predict: () => ({ state: 'returning' }),
+    isSupported: (attrs) => hasFeature(attrs, VacuumFeature.RETURN_HOME),
+  },
+  {
+    id: 'vacuum/locate',
+    label: 'Locate',
+    domains: ['vacuum'],
+    needsState: false,
+    service: 'vacuum.locate',
+    isSupported: (attrs) => hasFeature(attrs, VacuumFeature.LOCATE),
+  },
+  {
+    id: 'vacuum/clean_spot',
+    label: 'Spot clean',
+    domains: ['vacuum'],
+    needsState: false,
+    service: 'vacuum.clean_spot',
+    predict: () => ({ state: 'cleaning' }),
+    isSupported: (attrs) => hasFeature(attrs, VacuumFeature.CLEAN_SPOT),
+  },
+  {
+    id: 'vacuum/set_fan_speed',
+    label: 'Suction',
+    domains: ['vacuum'],
+    param: enumParam('fan_speed_list'),
+    needsState: false,
+    service: 'vacuum.set_fan_speed',
+    data: ({ value }) => ({ fan_speed: value }),
+    predict: ({ value }) => ({ attributes: { fan_speed: value } }),
+    isSupported: (attrs) =>
+      hasFeature(attrs, VacuumFeature.FAN_SPEED) && hasOptions('fan_speed_list')(attrs),
+  },
+  {
+    // Segment cleaning isn't a core HA service; the Roborock/Xiaomi command
+    // goes through send_command with the segment id.
+    id: 'vacuum/clean_room',
+    label: 'Clean room',
+    domains: ['vacuum'],
+    param: (attrs) => ({ type: 'enum', options: getVacuumRooms(attrs).map((room) => room.id) }),
+    needsState: false,
+    service: 'vacuum.send_command',
+    data: ({ value }) => {
+      const id = String(value);
+      const numeric = Number(id);
+      return {
+        command: 'app_segment_clean',
+        params: [Number.isInteger(numeric) ? numeric : id],
+      };
+    },
+    predict: () => ({ state: 'cleaning' }),
+    isSupported: (attrs) =>
+      hasFeature(attrs, VacuumFeature.SEND_COMMAND) && getVacuumRooms(attrs).length > 0,
+  },
+  {
+    id: 'fan/toggle',
+    label: 'Toggle',
+    domains: ['fan'],
+    needsState: true,
+    service: ({ state }) => (state === 'on' ? 'fan.turn_off' : 'fan.turn_on'),
+    predict: ({ state }) => ({ state: state === 'on' ? 'off' : 'on' }),
+  },
+  {
+    id: 'fan/set_percentage',
+    label: 'Speed',
+    domains: ['fan'],
+    param: getFanSpeedParam,
+    needsState: false,
+    service: 'fan.set_percentage',
+    data: ({ value }) => ({ percentage: value }),
+    predict: ({ value }) => {
+      const pct = value as number;
+      return { state: pct > 0 ? 'on' : 'off', attributes: { percentage: pct } };
+    },
+    isSupported: (attrs) => hasFeature(attrs, FanFeature.SET_SPEED),
+    queueTtlMs: 15 * MINUTE_MS,
+  },
+  {
+    id: 'fan/toggle_oscillation',
+    label: 'Oscillate',
+    domains: ['fan'],
+    needsState: true,
+    service: 'fan.oscillate',
+    data: ({ attributes }) => ({ oscillating: attributes.oscillating !== true }),
+    predict: ({ attributes }) => ({ attributes: { oscillating: attributes.oscillating !== true } }),
+    isSupported: (attrs) => hasFeature(attrs, FanFeature.OSCILLATE),
+  },
+  {
+    id: 'fan/set_direction',
+    label: 'Direction',
+    domains: ['fan'],
+    param: { type: 'enum', options: ['forward', 'reverse'] },
+    needsState: false,
+    service: 'fan.set_direction',
+    data: ({ value }) => ({ direction: value }),
+    predict: ({ value }) => ({ attributes: { direction: value } }),
+    isSupported: (attrs) => hasFeature(attrs, FanFeature.DIRECTION),
+    queueTtlMs: 15 * MINUTE_MS,
+  },
+  {
+    id: 'fan/set_preset_mode',
+    label: 'Preset',
+    domains: ['fan'],
+    param: enumParam('preset_modes'),
+    needsState: false,
+    service: 'fan.set_preset_mode',
+    data: ({ value }) => ({ preset_mode: value }),
+    predict: ({ value }) => ({ state: 'on', attributes: { preset_mode: value } }),
+    isSupported: (attrs) =>
+      hasFeature(attrs, FanFeature.PRESET_MODE) && hasOptions('preset_modes')(attrs),
+    queueTtlMs: 15 * MINUTE_MS,
+  },
+  {
+    id: 'lock/lock',
+    label: 'Lock',
+    domains: ['lock'],
+    param: lockCodeParam,
+    needsState: false,
+    service: 'lock.lock',
+    data: ({ value }) => (value ? { code: value } : {}),
+    predict: () => ({ state: 'locking' }),
+  },
+  {
+    // Never queued: unlocking has to happen when the user asks, not whenever the hub returns.
+    id: 'lock/unlock',
+    label: 'Unlock',
+    domains: ['lock'],
+    param: lockCodeParam,
+    needsState: false,
+    service: 'lock.unlock',
+    data: ({ value }) => (value ? { code: value } : {}),
+    predict: () => ({ state: 'unlocking' }),
+  },
+  alarmArmCommand('home', 'Arm home', AlarmFeature.ARM_HOME),
+  alarmArmCommand('away', 'Arm away', AlarmFeature.ARM_AWAY),
+  alarmArmCommand('night', 'Arm night', AlarmFeature.ARM_NIGHT),
+  {
+    // Shown as disarming until the hub reports disarmed, so a panel that ignores the
+    // call never looks safe.
+    id: 'alarm/disarm',
+    label: 'Disarm',
+    domains: ['alarm_control_panel'],
+    param: alarmCodeParam(false),
+    needsState: false,
+    service: 'alarm_control_panel.alarm_disarm',
+    data: ({ value }) => (value ? { code: value } : {}),
+    predict: () => ({ state: 'disarming' }),
+  },
+  {
+    id: 'media/play_pause',
+    label: 'Play/Pause',
+    domains: ['media_player'],
+    needsState: true,
+    service: ({ state }) =>
+      state === 'playing' ? 'media_player.media_pause' : 'media_player.media_play',
+    predict: ({ state }) => ({ state: state === 'playing' ? 'paused' : 'playing' }),
+  },
+  {
+    id: 'media/next',
+    label: 'Next',
+    domains: ['media_player'],
+    needsState: false,
+    service: 'media_player.media_next_track',
+  },
+  {
+    id: 'media/previous',
+    label: 'Previous',
+    domains: ['media_player'],
+    needsState: false,
+    service: 'media_player.media_previous_track',
+  },
+  {
+    id: 'media/volume_up',
+    label: 'Volume up',
+    domains: ['media_player'],
+    needsState: false,
+    service: 'media_player.volume_up',
+  },
+  {
+    id: 'media/volume_down',
+    label: 'Volume down',
+    domains: ['media_player'],
+    needsState: false,
+    service: 'media_player.volume_down',
+  },
+  {
+    id: 'media/volume_set',
+    label: 'Volume',
+    domains: ['media_player'],
+    param: { type: 'number', min: 0, max: 100, step: 1, unit: '%' },
+    needsState: false,
+    service: 'media_player.volume_set',
+    data: ({ value }) => ({ volume_level: (value as number) / 100 }),
+    predict: ({ value }) => ({ attributes: { volume_level: (value as number) / 100 } }),
+  },
+  {
+    id: 'media/toggle_mute',
+    label: 'Mute',
+    domains: ['media_player'],
+    needsState: true,
+    service: 'media_player.volume_mute',
+    data: ({ attributes }) => ({ is_volume_muted: attributes.is_volume_muted !== true }),
+    predict: ({ attributes }) => ({
+      attributes: { is_volume_muted: attributes.is_volume_muted !== true },
+    }),
+    isSupported: (attrs) => hasFeature(attrs, MediaFeature.VOLUME_MUTE),
+  },
+  {
+    id: 'media/select_source',
+    label: 'Source',
+    domains: ['media_player'],
+    param: enumParam('source_list'),
+    needsState: false,
+    service: 'media_player.select_source',
+    data: ({ value }) => ({ source: value }),
+    predict: ({ value }) => ({ attributes: { source: value } }),
+    isSupported: (attrs) =>
+      hasFeature(attrs, MediaFeature.SELECT_SOURCE) && hasOptions('source_list')(attrs),
+    queueTtlMs: 15 * MINUTE_MS,
+  },
+  {
+    id: 'media/select_sound_mode',
+    label: 'Sound mode',
+    domains: ['media_player'],
+    param: enumParam('sound_mode_list'),
+    needsState: false,
+    service: 'media_player.select_sound_mode',
+    data: ({ value }) => ({ sound_mode: value }),
+    predict: ({ value }) => ({ attributes: { sound_mode: value } }),
+    isSupported: (attrs) =>
+      hasFeature(attrs, MediaFeature.SELECT_SOUND_MODE) && hasOptions('sound_mode_list')(attrs),
+    queueTtlMs: 15 * MINUTE_MS,
+  },
+  {
+    id: 'media/seek',
+    label: 'Seek',
+    domains: ['media_player'],
+    param: getMediaSeekParam,
+    needsState: false,
+    service: 'media_player.media_seek',
+    data: ({ value }) => ({ seek_position: value }),
+    predict: ({ value }) => ({
+      attributes: { media_position: value, media_position_updated_at: new Date().toISOString() },
+    }),
+    isSupported: (attrs) =>
+      hasFeature(attrs, MediaFeature.SEEK) && (readNumber(attrs.media_duration) ?? 0) > 0,
+  },
+  {
+    id: 'media/toggle_shuffle',
+    label: 'Shuffle',
+    domains: ['media_player'],
+    needsState: true,
+    service: 'media_player.shuffle_set',
+    data: ({ attributes }) => ({ shuffle: attributes.shuffle !== true }),
+    predict: ({ attributes }) => ({ attributes: { shuffle: attributes.shuffle !== true } }),
+    isSupported: (attrs) => hasFeature(attrs, MediaFeature.SHUFFLE_SET),
+  },
+  {
+    id: 'media/set_repeat',
+    label: 'Repeat',
+    domains: ['media_player'],
+    param: { type: 'enum', options: REPEAT_MODES },
+    needsState: false,
+    service: 'media_player.repeat_set',
+    data: ({ value }) => ({ repeat: value }),
+    predict: ({ value }) => ({ attributes: { repeat: value } }),
+    isSupported: (attrs) => hasFeature(attrs, MediaFeature.REPEAT_SET),
+  },
+  {
+    // Sent to the group leader; `value` is the speaker joining it.
+    id: 'media/join',
+    label: 'Group',
+    domains: ['media_player'],
+    param: { type: 'entity', domain: 'media_player' },
+    needsState: false,
+    service: 'media_player.join',
+    data: ({ value }) => ({ group_members: [value] }),
+    predict: ({ entityId, value, attributes }) => {
+      const members = readStringList(attributes.group_members);
+      const leader = members.length > 0 ? members : [entityId];
+      return { attributes: { group_members: [...leader, value as string] } };
+    },
+    isSupported: (attrs) => hasFeature(attrs, MediaFeature.GROUPING),
+  },
+  {
+    // Sent to the speaker leaving its group.
+    id: 'media/unjoin',
+    label: 'Ungroup',
+    domains: ['media_player'],
+    needsState: false,
+    service: 'media_player.unjoin',
+    predict: ({ entityId }) => ({ attributes: { group_members: [entityId] } }),
+    isSupported: (attrs) => hasFeature(attrs, MediaFeature.GROUPING),
+  },
+  {
+    id: 'boiler/temp_up',
+    label: 'Temperature up',
+    domains: ['climate'],
+    needsState: true,
+    service: 'climate.set_temperature',
+    data: ({ attributes }) => requireSteppedSetpoints(attributes, 1),
+    predict: ({ attributes }) => {
+      const setpoints = stepSetpoints(attributes, 1);
+      return setpoints ? { attributes: setpoints } : null;
+    },
+    queueTtlMs: 120 * MINUTE_MS,
+  },
+  {
+    id: 'boiler/temp_down',
+    label: 'Temperature down',
+    domains: ['climate'],
+    needsState: true,
+    service: 'climate.set_temperature',
+    data: ({ attributes }) => requireSteppedSetpoints(attributes, -1),
+    predict: ({ attributes }) => {
+      const setpoints = stepSetpoints(attributes, -1);
+      return setpoints ? { attributes: setpoints } : null;
+    },
+    queueTtlMs: 120 * MINUTE_MS,
+  },
+  {
+    id: 'climate/set_temperature',
+    label: 'Target temperature',
+    domains: ['climate'],
+    param: getClimateSetpointParam,
+    needsState: false,
+    service: 'climate.set_temperature',
+    data: ({ value }) => ({ temperature: value }),
+    predict: ({ value }) => ({ attributes: { temperature: value } }),
+    // heat_cool mode reports `temperature: null` and uses the low/high pair instead.
+    isSupported: (attrs) => readNumber(attrs.temperature) !== null,
+    queueTtlMs: 120 * MINUTE_MS,
+  },
+  {
+    // Dual setpoint (heat_cool): HA wants both ends in one call, so the
+    // other end is read from the fresh state.
+    id: 'climate/set_target_low',
+    label: 'Heat to',
+    domains: ['climate'],
+    param: getClimateSetpointParam,
+    needsState: true,
+    service: 'climate.set_temperature',
+    data: ({ value, attributes }) => {
+      const low = value as number;
+      return {
+        target_temp_low: low,
+        target_temp_high: Math.max(low, readNumber(attributes.target_temp_high) ?? low),
+      };
+    },
+    predict: ({ value }) => ({ attributes: { target_temp_low: value } }),
+    isSupported: (attrs) => readNumber(attrs.target_temp_low) !== null,
+    queueTtlMs: 120 * MINUTE_MS,
+  },
+  {
+    id: 'climate/set_target_high',
+    label: 'Cool to',
+    domains: ['climate'],
+    param: getClimateSetpointParam,
+    needsState: true,
+    service: 'climate.set_temperature',
+    data: ({ value, attributes }) => {
+      const high = value as number;
+      return {
+        target_temp_low: Math.min(high, readNumber(attributes.target_temp_low) ?? high),
+        target_temp_high: high,
+      };
+    },
+    predict: ({ value }) => ({ attributes: { target_temp_high: value } }),
+    isSupported: (attrs) => readNumber(attrs.target_temp_high) !== null,
+    queueTtlMs: 120 * MINUTE_MS,
+  },
+  {
+    id: 'climate/set_hvac_mode',
+    label: 'Mode',
+    domains: ['climate'],
+    param: enumParam('hvac_modes'),
+    needsState: false,
+    service: 'climate.set_hvac_mode',
+    data: ({ value }) => ({ hvac_mode: value }),
+    // A climate entity's state is its HVAC mode.
+    predict: ({ value }) => ({ state: value as string }),
+    isSupported: hasOptions('hvac_modes'),
+    queueTtlMs: 120 * MINUTE_MS,
+  },
+  {
+    id: 'climate/set_preset_mode',
+    label: 'Preset',
+    domains: ['climate'],
+    param: enumParam('preset_modes'),
+    needsState: false,
+    service: 'climate.set_preset_mode',
+    data: ({ value }) => ({ preset_mode: value }),
+    predict: ({ value }) => ({ attributes: { preset_mode: value } }),
+    isSupported: hasOptions('preset_modes'),
+    queueTtlMs: 120 * MINUTE_MS,
+  },
+  {
+    id: 'climate/set_fan_mode',
+    label: 'Fan',
+    domains: ['climate'],
+    param: enumParam('fan_modes'),
+    needsState: false,
+    service: 'climate.set_fan_mode',
+    data: ({ value }) => ({ fan_mode: value }),
+    predict: ({ value }) => ({ attributes: { fan_mode: value } }),
+    isSupported: hasOptions('fan_modes'),
+  },
+  {
+    id: 'helper/toggle',
+    label: 'Toggle',
+    domains: ['input_boolean'],
+    needsState: true,
+    service: ({ state }) => (state === 'on' ? 'input_boolean.turn_off' : 'input_boolean.turn_on'),
+    predict: ({ state }) => ({ state: state === 'on' ? 'off' : 'on' }),
+  },
+  {
+    id: 'helper/press',
+    label: 'Press',
+    domains: ['input_button', 'button'],
+    needsState: false,
+    service: ({ domain }) => `${domain}.press`,
+  },
+  {
+    id: 'helper/set_value',
+    label: 'Value',
+    domains: ['input_number', 'number'],
+    param: getHelperNumberParam,
+    needsState: false,
+    service: ({ domain }) => `${domain}.set_value`,
+    data: ({ value }) => ({ value }),
+    predict: ({ value }) => ({ state: String(value) }),
+    queueTtlMs: 15 * MINUTE_MS,
+  },
+  {
+    id: 'helper/select_option',
+    label: 'Option',
+    domains: ['input_select', 'select'],
+    param: enumParam('options'),
+    needsState: false,
+    service: ({ domain }) => `${domain}.select_option`,
+    data: ({ value }) => ({ option: value }),
+    predict: ({ value }) => ({ state: value as string }),
+    isSupported: hasOptions('options'),
+    queueTtlMs: 15 * MINUTE_MS,
+  },
+  {
+    id: 'tv/toggle_power',
+    label: 'Power',
+    domains: ['media_player'],
+    needsState: true,
+    service: ({ state }) => (isOff(state) ? 'media_player.turn_on' : 'media_player.turn_off'),
+    predict: ({ state }) => ({ state: isOff(state) ? 'on' : 'off' }),
+  },
+  {
+    id: 'speaker/toggle_power',
+    label: 'Power',
+    domains: ['media_player'],
+    needsState: true,
+    service: ({ state }) => (isOff(state) ? 'media_player.turn_on' : 'media_player.turn_off'),
+    predict: ({ state }) => ({ state: isOff(state) ? 'on' : 'off' }),
+  },
+]);
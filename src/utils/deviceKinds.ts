@@ -4,6 +4,7 @@ import type { UIDevice } from '../models/device';
 const PRIMARY_CATEGORIES = new Set([
   'light',
   'blind',
+  'fan',
   'tv',
   'speaker',
   'boiler',
@@ -14,15 +15,34 @@ const PRIMARY_CATEGORIES = new Set([
   'vacuum',
   'camera',
   'security',
+  'lock',
+  'controls',
 ]);
 
-const SENSOR_CATEGORIES = new Set(['sensor', 'motion sensor']);
+// Helpers and simple control entities; their numeric or timestamp states are
+// values to set, not readings.
+const CONTROL_DOMAINS = new Set([
+  'input_boolean',
+  'input_number',
+  'input_select',
+  'input_button',
+  'button',
+  'number',
+  'select',
+]);
+
+const SENSOR_CATEGORIES = new Set(['sensor', 'motion sensor', 'contact', 'safety']);
 
 function normalizeCategory(category?: string | null) {
   return (category ?? '').toString().trim().toLowerCase();
 }
 
-export function isDetailDevice(state: string) {
+export function isControlDomain(domain?: string | null) {
+  return CONTROL_DOMAINS.has(domain ?? '');
+}
+
+export function isDetailDevice(state: string, domain?: string | null) {
+  if (isControlDomain(domain)) return false;
   const trimmed = (state ?? '').toString().trim();
   if (!trimmed) return false;
   const isUnavailable = trimmed.toLowerCase() === 'unavailable';
@@ -33,7 +53,7 @@ export function isDetailDevice(state: string) {
 export function isSensorDevice(device: UIDevice): boolean {
   const category = normalizeCategory(device.labelCategory);
   if (SENSOR_CATEGORIES.has(category)) return true;
-  if (isDetailDevice(device.state)) return true;
+  if (isDetailDevice(device.state, device.domain)) return true;
   return false;
 }
 
@@ -41,5 +61,5 @@ export function isPrimaryDevice(device: UIDevice): boolean {
   const category = normalizeCategory(device.labelCategory);
   if (PRIMARY_CATEGORIES.has(category)) return true;
   if (isSensorDevice(device)) return false;
-  return !isDetailDevice(device.state);
+  return !isDetailDevice(device.state, device.domain);
 }
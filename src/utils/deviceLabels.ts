@@ -4,13 +4,20 @@ import type { UIDevice } from '../models/device';
 export const LABEL_ORDER = [
   'Light',
   'Blind',
+  'Fan',
+  'Lock',
+  'Safety',
   'Motion Sensor',
+  'Contact',
   'Spotify',
   'Boiler',
+  'Thermostat',
   'Doorbell',
   'Home Security',
   'TV',
   'Speaker',
+  'Vacuum',
+  'Controls',
 ] as const;
 
 export const OTHER_LABEL = 'Other';
@@ -1,6 +1,7 @@
 // src/utils/deviceSections.ts
 import type { UIDevice } from '../models/device';
 import { getGroupLabel, getPrimaryLabel, sortLabels, OTHER_LABEL } from './deviceLabels';
+import { isHazardActive } from './binarySensors';
 
 export type DeviceLayoutSize = 'small' | 'medium' | 'large';
 
@@ -28,6 +29,9 @@ export type LayoutRow = {
 
 export type DeviceDimension = { width: number; height: number };
 
+// Active leaks, smoke, gas and the like leave their usual section and sit here, first.
+export const ALERTS_SECTION_TITLE = 'Alerts';
+
 export function getDeviceLayoutSize(device: UIDevice): DeviceLayoutSize {
   const label = getPrimaryLabel(device);
   if (label === 'Spotify') return 'medium';
@@ -40,10 +44,25 @@ export function getDeviceDimensions(size: DeviceLayoutSize): DeviceDimension {
   return { width: 1, height: 1 };
 }
 
+function chunkRows(title: string, list: UIDevice[]): DeviceRow[] {
+  const rows: DeviceRow[] = [];
+  for (let i = 0; i < list.length; i += 4) {
+    const slice = list.slice(i, i + 4);
+    const rowKey = `${title}-${slice.map((d) => d.entityId).join('|')}`;
+    rows.push({ key: rowKey, devices: slice });
+  }
+  return rows;
+}
+
 export function buildDeviceSections(devices: UIDevice[]): DeviceSection[] {
   const groups = new Map<string, UIDevice[]>();
+  const alerts: UIDevice[] = [];
 
   for (const device of devices) {
+    if (isHazardActive(device)) {
+      alerts.push(device);
+      continue;
+    }
     const label = getGroupLabel(device);
     if (!groups.has(label)) {
       groups.set(label, []);
@@ -52,6 +71,9 @@ export function buildDeviceSections(devices: UIDevice[]): DeviceSection[] {
   }
 
   const sections: DeviceSection[] = [];
+  if (alerts.length > 0) {
+    sections.push({ title: ALERTS_SECTION_TITLE, data: chunkRows(ALERTS_SECTION_TITLE, alerts) });
+  }
   const sortedLabels = sortLabels(Array.from(groups.keys()));
 
   for (const label of sortedLabels) {
@@ -60,14 +82,7 @@ export function buildDeviceSections(devices: UIDevice[]): DeviceSection[] {
     const list = groups.get(label) ?? [];
     if (list.length === 0) continue;
 
-    const rows: DeviceRow[] = [];
-    for (let i = 0; i < list.length; i += 4) {
-      const slice = list.slice(i, i + 4);
-      const rowKey = `${label}-${slice.map((d) => d.entityId).join('|')}`;
-      rows.push({ key: rowKey, devices: slice });
-    }
-
-    sections.push({ title: label, data: rows });
+    sections.push({ title: label, data: chunkRows(label, list) });
   }
 
   return sections;
@@ -1,109 +1,92 @@
 // src/utils/haCommands.ts
 import { callHaService, fetchHaState, HaConnectionLike } from '../api/ha';
+import type { HaErrorKind } from '../api/haErrors';
+import type { UIDevice } from '../models/device';
+import { applyPrediction, rollbackPrediction, settlePrediction } from '../store/optimisticStore';
+import { noteCommandSent } from '../store/refreshScheduler';
+import { noteLocalCommand } from '../store/deviceEvents';
+import {
+  buildServiceCall,
+  CommandValue,
+  getCommandDefinition,
+  normalizeCommandValue,
+  predictCommandOutcome,
+} from './commandRegistry';
 
-export const NUMERIC_COMMANDS = new Set<string>([
-  'light/set_brightness',
-  'media/volume_set',
-]);
+// What a control sees after asking for a command; errors have already been shown to the user.
+export type CommandResult = { ok: true } | { ok: false; errorKind: HaErrorKind | null };
+
+// Sends a command from a control; `target` defaults to the device being shown.
+export type CommandHandler = (
+  command: string,
+  value?: CommandValue,
+  target?: UIDevice
+) => Promise<CommandResult>;
 
 export async function handleDeviceCommand(params: {
   ha: HaConnectionLike;
   entityId: string;
   command: string;
-  value?: number;
+  value?: CommandValue;
 }) {
-  const { ha, entityId, command, value } = params;
+  const { ha, entityId, command } = params;
 
-  if (NUMERIC_COMMANDS.has(command) && typeof value !== 'number') {
-    throw new Error('Command requires numeric value');
+  const def = getCommandDefinition(command);
+  if (!def) {
+    throw new Error(`Unsupported command ${command}`);
   }
 
-  const state = await fetchHaState(ha, entityId);
-  const currentState = String(state.state ?? '');
   const domain = entityId.split('.')[0];
-  const attrs = (state.attributes ?? {}) as Record<string, unknown>;
+  if (def.domains && !def.domains.includes(domain)) {
+    throw new Error(`${def.label} is not supported for this device.`);
+  }
 
-  switch (command) {
-    case 'light/toggle':
-      if (domain === 'light') {
-        await callHaService(ha, 'light', currentState === 'on' ? 'turn_off' : 'turn_on', {
-          entity_id: entityId,
-        });
-      } else {
-        await callHaService(ha, 'homeassistant', 'toggle', { entity_id: entityId });
-      }
-      break;
-    case 'light/set_brightness':
-      if (domain !== 'light') throw new Error('Brightness supported only for lights');
-      await callHaService(ha, 'light', 'turn_on', {
-        entity_id: entityId,
-        brightness_pct: clamp(value ?? 0, 0, 100),
-      });
-      break;
-    case 'blind/open':
-      await callHaService(ha, 'cover', 'open_cover', { entity_id: entityId });
-      break;
-    case 'blind/close':
-      await callHaService(ha, 'cover', 'close_cover', { entity_id: entityId });
-      break;
-    case 'media/play_pause':
-      await callHaService(
-        ha,
-        'media_player',
-        currentState === 'playing' ? 'media_pause' : 'media_play',
-        { entity_id: entityId }
-      );
-      break;
-    case 'media/next':
-      await callHaService(ha, 'media_player', 'media_next_track', { entity_id: entityId });
-      break;
-    case 'media/previous':
-      await callHaService(ha, 'media_player', 'media_previous_track', {
-        entity_id: entityId,
-      });
-      break;
-    case 'media/volume_up':
-      await callHaService(ha, 'media_player', 'volume_up', { entity_id: entityId });
-      break;
-    case 'media/volume_down':
-      await callHaService(ha, 'media_player', 'volume_down', { entity_id: entityId });
-      break;
-    case 'media/volume_set':
-      await callHaService(ha, 'media_player', 'volume_set', {
-        entity_id: entityId,
-        volume_level: clamp((value ?? 0) / 100, 0, 1),
-      });
-      break;
-    case 'boiler/temp_up':
-    case 'boiler/temp_down': {
-      const currentTemp =
-        typeof attrs.temperature === 'number'
-          ? (attrs.temperature as number)
-          : typeof attrs.current_temperature === 'number'
-          ? (attrs.current_temperature as number)
-          : 20;
-      const delta = command === 'boiler/temp_up' ? 1 : -1;
-      const newTemp = currentTemp + delta;
-      await callHaService(ha, 'climate', 'set_temperature', {
-        entity_id: entityId,
-        temperature: newTemp,
-      });
-      break;
-    }
-    case 'tv/toggle_power':
-    case 'speaker/toggle_power':
-      await callHaService(
-        ha,
-        'media_player',
-        currentState === 'off' || currentState === 'standby' ? 'turn_on' : 'turn_off',
-        { entity_id: entityId }
-      );
-      break;
-    default:
-      throw new Error(`Unsupported command ${command}`);
+  let currentState: string | null = null;
+  let attributes: Record<string, unknown> = {};
+  // Params derived from the entity (option lists, setpoint limits) are checked
+  // against its live attributes, so those commands fetch state too.
+  if (def.needsState || typeof def.param === 'function') {
+    const state = await fetchHaState(ha, entityId);
+    currentState = String(state.state ?? '');
+    attributes = (state.attributes ?? {}) as Record<string, unknown>;
   }
+
+  const value = normalizeCommandValue(def, params.value, attributes);
+
+  const call = buildServiceCall(def, {
+    entityId,
+    domain,
+    value,
+    state: currentState,
+    attributes,
+  });
+  await callHaService(ha, call.domain, call.service, call.data);
 }
 
-function clamp(value: number, min: number, max: number) {
-  return Math.min(max, Math.max(min, value));
+/**
+ * Sends a command from the UI. The predicted result is shown on the device
+ * straight away and rolled back if the hub rejects the call; the error is
+ * rethrown for the caller to report.
+ */
+export async function runDeviceCommand(params: {
+  ha: HaConnectionLike;
+  device: UIDevice;
+  command: string;
+  value?: CommandValue;
+}) {
+  const { ha, device, command, value } = params;
+  const def = getCommandDefinition(command);
+  const prediction = def ? predictCommandOutcome(def, device, value) : null;
+  const predictionId = prediction ? applyPrediction(device, prediction) : null;
+  // The hub may report the change before our call returns.
+  noteLocalCommand(device.entityId);
+
+  try {
+    await handleDeviceCommand({ ha, entityId: device.entityId, command, value });
+    if (predictionId !== null) settlePrediction(device.entityId, predictionId);
+    noteCommandSent();
+  } catch (err) {
+    if (predictionId !== null) rollbackPrediction(device.entityId, predictionId);
+    throw err;
+  }
 }
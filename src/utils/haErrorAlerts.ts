@@ -0,0 +1,92 @@
+// src/utils/haErrorAlerts.ts
+import { Alert } from 'react-native';
+import { getHaErrorKind } from '../api/haErrors';
+import type { HaMode } from '../api/dinodia';
+import { showToast } from '../store/toastStore';
+
+const GENERIC_COMMAND_MESSAGE = 'We could not send that to your Dinodia Hub. Please try again.';
+
+const QUEUE_BUTTON_TEXT = 'Send when back';
+const QUEUE_OFFER = 'We can hold this action and send it once your Dinodia Hub is reachable.';
+
+// Shown when the active route has no URL configured at all.
+export function showHubNotReady(haMode: HaMode, onQueue?: () => void) {
+  const message =
+    haMode === 'cloud'
+      ? 'Dinodia Cloud is not ready yet. The homeowner needs to finish setting up remote access for this property.'
+      : 'We cannot find your Dinodia Hub on the home Wi-Fi. It looks like you are away from home—switch to Dinodia Cloud to control your place.';
+  if (!onQueue) {
+    Alert.alert('Almost there', message);
+    return;
+  }
+  Alert.alert('Almost there', `${message}\n\n${QUEUE_OFFER}`, [
+    { text: 'Not now', style: 'cancel' },
+    { text: QUEUE_BUTTON_TEXT, onPress: onQueue },
+  ]);
+}
+
+// Shown when the dashboard is on a saved snapshot because refreshes are failing.
+export function showStaleDataNotice(onQueue?: () => void) {
+  const message =
+    'We have not heard from your Dinodia Hub for a while, so what you see may be out of date. Controls are paused until it responds again.';
+  if (!onQueue) {
+    Alert.alert('Showing saved data', message);
+    return;
+  }
+  Alert.alert('Showing saved data', `${message}\n\n${QUEUE_OFFER}`, [
+    { text: 'Not now', style: 'cancel' },
+    { text: QUEUE_BUTTON_TEXT, onPress: onQueue },
+  ]);
+}
+
+export function showHaCommandError(
+  err: unknown,
+  opts: { isAdmin: boolean; onOpenHubSettings?: () => void; onQueue?: () => void }
+) {
+  const message = err instanceof Error && err.message ? err.message : GENERIC_COMMAND_MESSAGE;
+
+  switch (getHaErrorKind(err)) {
+    case 'auth':
+      if (opts.isAdmin && opts.onOpenHubSettings) {
+        Alert.alert(
+          'Dinodia Hub needs attention',
+          'Dinodia Hub did not accept the saved access token. Update the long-lived token in Dinodia Hub settings.',
+          [
+            { text: 'Not now', style: 'cancel' },
+            { text: 'Open settings', onPress: opts.onOpenHubSettings },
+          ]
+        );
+      } else {
+        Alert.alert(
+          'Dinodia Hub needs attention',
+          'Dinodia Hub did not accept the saved access token. Please ask the homeowner to update it.'
+        );
+      }
+      return;
+    case 'not_found':
+      Alert.alert(
+        'Device not found',
+        'Dinodia Hub no longer has this device. Pull down on your dashboard to refresh it.'
+      );
+      return;
+    case 'unreachable':
+      if (opts.onQueue) {
+        Alert.alert('Dinodia Hub is offline', `${message}\n\n${QUEUE_OFFER}`, [
+          { text: 'Not now', style: 'cancel' },
+          { text: QUEUE_BUTTON_TEXT, onPress: opts.onQueue },
+        ]);
+      } else {
+        showToast(message, 'error');
+      }
+      return;
+    case 'timeout':
+      // The change has already been rolled back on screen; a toast is enough.
+      showToast(
+        'Your Dinodia Hub took too long to respond. It may be busy—please try again in a moment.',
+        'error'
+      );
+      return;
+    default:
+      showToast(message, 'error');
+  }
+}
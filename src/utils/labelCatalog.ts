@@ -2,18 +2,24 @@
 export type LabelCategory =
   | 'Light'
   | 'Blind'
+  | 'Fan'
   | 'TV'
   | 'Speaker'
   | 'Boiler'
   | 'Security'
+  | 'Home Security'
   | 'Spotify'
   | 'Switch'
   | 'Thermostat'
   | 'Media'
   | 'Motion Sensor'
+  | 'Contact'
+  | 'Safety'
   | 'Sensor'
   | 'Vacuum'
   | 'Camera'
+  | 'Lock'
+  | 'Controls'
   | 'Other';
 
 const LABEL_MAP: Record<string, LabelCategory> = {
@@ -23,6 +29,9 @@ const LABEL_MAP: Record<string, LabelCategory> = {
   blinds: 'Blind',
   shade: 'Blind',
   shades: 'Blind',
+  fan: 'Fan',
+  fans: 'Fan',
+  'ceiling fan': 'Fan',
   tv: 'TV',
   television: 'TV',
   speaker: 'Speaker',
@@ -41,9 +50,36 @@ const LABEL_MAP: Record<string, LabelCategory> = {
   'media player': 'Media',
   motion: 'Motion Sensor',
   'motion sensor': 'Motion Sensor',
+  contact: 'Contact',
+  'contact sensor': 'Contact',
+  'door sensor': 'Contact',
+  'window sensor': 'Contact',
+  safety: 'Safety',
+  smoke: 'Safety',
+  'smoke alarm': 'Safety',
+  leak: 'Safety',
+  'leak sensor': 'Safety',
   sensor: 'Sensor',
   vacuum: 'Vacuum',
   camera: 'Camera',
+  lock: 'Lock',
+  locks: 'Lock',
+  'door lock': 'Lock',
+  control: 'Controls',
+  controls: 'Controls',
+  helper: 'Controls',
+  helpers: 'Controls',
+  // Domain fallbacks for helpers and device controls, which rarely carry a label of their own.
+  // ha.ts only applies button, number and select to entities that aren't device settings.
+  input_boolean: 'Controls',
+  input_number: 'Controls',
+  input_select: 'Controls',
+  input_button: 'Controls',
+  button: 'Controls',
+  number: 'Controls',
+  select: 'Controls',
+  // Alarm panels join the cameras in Home Security, where their keypad lives.
+  alarm_control_panel: 'Home Security',
 };
 
 export function classifyDeviceByLabel(labels: string[]): LabelCategory | null {
@@ -18,3 +18,8 @@ export async function loadJson<T>(key: string): Promise<T | null> {
 export async function removeKey(key: string): Promise<void> {
   await AsyncStorage.removeItem(key);
 }
+
+export async function listKeys(prefix: string): Promise<string[]> {
+  const keys = await AsyncStorage.getAllKeys();
+  return keys.filter((key) => key.startsWith(prefix));
+}
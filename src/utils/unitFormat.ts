@@ -0,0 +1,182 @@
+// src/utils/unitFormat.ts
+import type { UIDevice } from '../models/device';
+
+export type TemperatureUnit = '°C' | '°F';
+export type EnergyUnit = 'Wh' | 'kWh';
+export type PowerUnit = 'W' | 'kW';
+export type PressureUnit = 'hPa' | 'kPa' | 'psi' | 'inHg';
+
+/** Per-user display units. A missing entry shows whatever the hub reports. */
+export type UnitPreferences = {
+  temperature?: TemperatureUnit;
+  energy?: EnergyUnit;
+  power?: PowerUnit;
+  pressure?: PressureUnit;
+};
+
+export type UnitKind = keyof UnitPreferences;
+
+export const UNIT_OPTIONS: { [K in UnitKind]: NonNullable<UnitPreferences[K]>[] } = {
+  temperature: ['°C', '°F'],
+  energy: ['Wh', 'kWh'],
+  power: ['W', 'kW'],
+  pressure: ['hPa', 'kPa', 'psi', 'inHg'],
+};
+
+// Multipliers to each family's base unit (Wh, W, Pa). Temperature isn't linear
+// and is handled on its own.
+const SCALED_UNITS: Record<Exclude<UnitKind, 'temperature'>, Record<string, number>> = {
+  energy: { Wh: 1, kWh: 1000, MWh: 1000000 },
+  power: { W: 1, kW: 1000 },
+  pressure: {
+    Pa: 1,
+    hPa: 100,
+    mbar: 100,
+    kPa: 1000,
+    bar: 100000,
+    psi: 6894.757,
+    inHg: 3386.389,
+    mmHg: 133.322,
+  },
+};
+
+const TEMPERATURE_UNITS = new Set(['°C', '°F']);
+
+// Display precision for the unit shown, so a kWh meter doesn't print 12.34567.
+const UNIT_DECIMALS: Record<string, number> = {
+  '°C': 1,
+  '°F': 1,
+  Wh: 0,
+  kWh: 2,
+  MWh: 3,
+  W: 0,
+  kW: 2,
+  Pa: 0,
+  hPa: 0,
+  mbar: 0,
+  kPa: 1,
+  bar: 3,
+  psi: 1,
+  inHg: 2,
+  mmHg: 0,
+  '%': 0,
+  lx: 0,
+  V: 1,
+  A: 2,
+};
+
+// Device classes whose readings never need decimals, whatever the unit says.
+const WHOLE_NUMBER_CLASSES = new Set([
+  'battery',
+  'humidity',
+  'moisture',
+  'illuminance',
+  'signal_strength',
+]);
+
+const DURATION_UNITS_S: Record<string, number> = { ms: 0.001, s: 1, min: 60, h: 3600, d: 86400 };
+
+const UNAVAILABLE_STATES = new Set(['unavailable', 'unknown']);
+
+function getUnitKind(unit: string): UnitKind | null {
+  if (TEMPERATURE_UNITS.has(unit)) return 'temperature';
+  for (const [kind, units] of Object.entries(SCALED_UNITS)) {
+    if (unit in units) return kind as UnitKind;
+  }
+  return null;
+}
+
+/** Converts `value` from `unit` to the user's preferred unit for that kind of reading, if they have one. */
+export function convertToPreferredUnit(
+  value: number,
+  unit: string,
+  prefs: UnitPreferences
+): { value: number; unit: string } {
+  const kind = getUnitKind(unit);
+  const target = kind ? prefs[kind] : undefined;
+  if (!kind || !target || target === unit) return { value, unit };
+  if (kind === 'temperature') {
+    return {
+      value: target === '°F' ? (value * 9) / 5 + 32 : ((value - 32) * 5) / 9,
+      unit: target,
+    };
+  }
+  const scale = SCALED_UNITS[kind];
+  return { value: (value * scale[unit]) / scale[target], unit: target };
+}
+
+function roundForDisplay(value: number, unit: string, deviceClass?: string | null): string {
+  const decimals = WHOLE_NUMBER_CLASSES.has(deviceClass ?? '') ? 0 : UNIT_DECIMALS[unit];
+  if (decimals !== undefined) return value.toFixed(decimals);
+  // Unknown units: at most two decimals, without trailing zeros.
+  return String(Math.round(value * 100) / 100);
+}
+
+function joinUnit(value: string, unit: string) {
+  if (!unit) return value;
+  return unit === '%' || unit.startsWith('°') ? `${value}${unit}` : `${value} ${unit}`;
+}
+
+/** e.g. "21.5°C", "1.24 kWh", "1013 hPa". */
+export function formatMeasurement(
+  value: number,
+  unit: string | null | undefined,
+  prefs: UnitPreferences,
+  deviceClass?: string | null
+): string {
+  if (!Number.isFinite(value)) return '—';
+  if (!unit) return roundForDisplay(value, '', deviceClass);
+  const converted = convertToPreferredUnit(value, unit, prefs);
+  return joinUnit(roundForDisplay(converted.value, converted.unit, deviceClass), converted.unit);
+}
+
+/** e.g. "45 s", "12 min", "3 h 20 min", "2 d 4 h". */
+export function formatDuration(totalSeconds: number): string {
+  const seconds = Math.round(Math.abs(totalSeconds));
+  if (seconds < 60) return `${seconds} s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return minutes % 60 ? `${hours} h ${minutes % 60} min` : `${hours} h`;
+  const days = Math.floor(hours / 24);
+  return hours % 24 ? `${days} d ${hours % 24} h` : `${days} d`;
+}
+
+/** e.g. "just now", "5 min ago", "in 2 h". */
+export function formatRelativeTime(time: number | string | Date, now = Date.now()): string {
+  const ms = new Date(time).getTime();
+  if (Number.isNaN(ms)) return 'Unknown';
+  const deltaS = (ms - now) / 1000;
+  if (Math.abs(deltaS) < 45) return 'just now';
+  const span = formatDuration(deltaS).split(' ').slice(0, 2).join(' ');
+  return deltaS < 0 ? `${span} ago` : `in ${span}`;
+}
+
+/** Energy meters report running totals, so history buckets should add them up rather than average. */
+export function isCumulativeUnit(unit: string | null | undefined): boolean {
+  return !!unit && unit.toLowerCase().includes('wh');
+}
+
+/** Formats a sensor's state for display: units converted and rounded, times made relative. */
+export function formatSensorState(device: UIDevice, prefs: UnitPreferences): string {
+  const state = (device.state ?? '').toString();
+  if (!state) return '—';
+  if (UNAVAILABLE_STATES.has(state.toLowerCase())) {
+    return state.charAt(0).toUpperCase() + state.slice(1).toLowerCase();
+  }
+  const attrs = device.attributes ?? {};
+  const deviceClass = typeof attrs.device_class === 'string' ? attrs.device_class : null;
+  const unit = typeof attrs.unit_of_measurement === 'string' ? attrs.unit_of_measurement : null;
+
+  if (deviceClass === 'timestamp') return formatRelativeTime(state);
+
+  const numeric = Number(state);
+  if (state.trim() && Number.isFinite(numeric)) {
+    if (deviceClass === 'duration' && unit && unit in DURATION_UNITS_S) {
+      return formatDuration(numeric * DURATION_UNITS_S[unit]);
+    }
+    return formatMeasurement(numeric, unit, prefs, deviceClass);
+  }
+  const text = unit ? `${state} ${unit}` : state;
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}